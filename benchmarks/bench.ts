@@ -1,10 +1,26 @@
+import { IntervalHistogram, monitorEventLoopDelay } from "perf_hooks"
 import Cache from "../src/index"
 
-function log(start: [number, number], count: number): void {
+// Event loop delay shows how long other work (e.g. requests) would wait while the cache is busy
+function monitorLoop(): IntervalHistogram {
+	const loop = monitorEventLoopDelay({ resolution: 10 })
+	loop.enable()
+	return loop
+}
+
+function log(start: [number, number], count: number, loop: IntervalHistogram): void {
 	const [secs, ns] = process.hrtime(start)
 	const ms = ns / 1000
 	const speed = (secs * 1000000 + ms) / count
 	console.log("  done: %s μs/record.", speed.toFixed(2))
+	loop.disable()
+	const toMs = (n: number) => (n / 1e6).toFixed(2)
+	console.log(
+		"  event loop delay: p50 %s ms, p99 %s ms, max %s ms.",
+		toMs(loop.percentile(50)),
+		toMs(loop.percentile(99)),
+		toMs(loop.max),
+	)
 }
 
 function benchData(size = 6) {
@@ -30,15 +46,17 @@ async function benchWrite(cache: Cache, batch: number, size = 6) {
 	}
 
 	console.log("> starting %s x %s writes", batch, full.length)
+	const loop = monitorLoop()
 	const start = process.hrtime()
 	await cache.setMany(entries)
-	log(start, entries.length)
+	log(start, entries.length, loop)
 	return full.map((_, i) => "key-" + i)
 }
 
 async function benchRead(cache: Cache, batch: number, keys: string[]) {
 	let count = 0
 	console.log("> starting %s x %s reads", batch, keys.length)
+	const loop = monitorLoop()
 	const start = process.hrtime()
 	for (let i = 0; i < batch; i++) {
 		for (const key of keys) {
@@ -47,7 +65,7 @@ async function benchRead(cache: Cache, batch: number, keys: string[]) {
 		}
 	}
 
-	log(start, count)
+	log(start, count, loop)
 }
 
 if (require.main === module) {
@@ -1,8 +1,49 @@
-import Cache, { CacheOptions } from "./"
+import Cache, { CacheArgs, CacheOptions } from "./"
+import { Serializer } from "./serializers"
+import { DEFAULT_PURGE_BATCH_SIZE, DEFAULT_PURGE_BUDGET } from "./consts"
 
-export class Adapter {
-	cache: Cache
-	private interval?: NodeJS.Timeout
+/**
+ * Where the adapter reports what it does. `console` fits, as do most logging libraries.
+ */
+export interface AdapterLogger {
+	info(message: string): void
+	error(message: string, err: unknown): void
+}
+
+/**
+ * Options of the adapter's background purge.
+ */
+export interface AdapterOptions {
+	/** Default: console */
+	logger?: AdapterLogger
+	/** Seconds between purges. Default: the cache's tbd, at most an hour */
+	purgeInterval?: number
+	/** Random extra delay before each purge, as a fraction of purgeInterval, so processes started together don't purge in lockstep. Default: 0.1 */
+	purgeJitter?: number
+	/** Maximum number of expired entries removed per purge; the rest wait for the next one. Default: 10000 */
+	purgeBudget?: number
+	/** Number of expired entries removed per transaction. Default: 500 */
+	purgeBatchSize?: number
+}
+
+/**
+ * Constructor arguments of an Adapter<T>: the cache's options, required with a serializer unless
+ * T is Buffer like for CacheArgs, then the adapter's own.
+ */
+export type AdapterArgs<T> = [T] extends [Buffer]
+	? [conf?: CacheOptions<T>, options?: AdapterOptions]
+	: [conf: CacheOptions<T> & { serializer: Serializer<T> }, options?: AdapterOptions]
+
+export class Adapter<T = Buffer> {
+	cache: Cache<T>
+	logger: AdapterLogger = console
+	purgeInterval: number
+	purgeJitter = 0.1
+	purgeBudget = DEFAULT_PURGE_BUDGET
+	purgeBatchSize = DEFAULT_PURGE_BATCH_SIZE
+	private timer?: NodeJS.Timeout
+	private purging?: Promise<number> // purge in flight, awaited by shutdown()
+	private stopped = false
 
 	/**
 	 * Init the hybrid-disk-cache adapter
@@ -12,35 +53,74 @@ export class Adapter {
 	 *  - tbd=3600
 	 *  - path=os.tmpdir()/hdc
 	 *  - dbPath=os.tmpdir/hdc/cache.db
+	 * @param options logger and background purge settings
 	 * @returns the hdc cache instance
 	 */
-	constructor(conf?: CacheOptions) {
-		this.cache = new Cache(conf)
+	constructor(...[conf, { logger, purgeInterval, purgeJitter, purgeBudget, purgeBatchSize } = {}]: AdapterArgs<T>) {
+		// AdapterArgs starts with the same options CacheArgs takes
+		this.cache = new Cache<T>(...([conf] as CacheArgs<T>))
+		if (logger) this.logger = logger
+		this.purgeInterval = purgeInterval ?? Math.min(this.cache.tbd, 3600)
+		if (purgeJitter !== undefined) this.purgeJitter = purgeJitter
+		if (purgeBudget) this.purgeBudget = purgeBudget
+		if (purgeBatchSize) this.purgeBatchSize = purgeBatchSize
 	}
 
 	async init() {
-		console.log(`  File cache located at ${this.cache.path}`)
-		console.log(`  Database located at ${this.cache.dbPath}`)
-		// purge timer
-		this.initPurgeTimer()
+		this.logger.info(`File cache located at ${this.cache.storePath}`)
+		this.logger.info(`Database located at ${this.cache.dbPath}`)
+		this.logger.info(`Cache manager inited, will purge every ${this.purgeInterval}s`)
+		this.stopped = false
+		this.schedulePurge()
 		return this.cache
 	}
 
 	/**
-	 * Stop the purge timer
+	 * Runs one purge of at most purgeBudget entries now, unless one is already running, and logs
+	 * what it removed and how long it took. Errors are logged, not thrown.
+	 *
+	 * @returns The number of entries purged
+	 */
+	purge(): Promise<number> {
+		this.purging ??= this.runPurge().finally(() => {
+			this.purging = undefined
+		})
+		return this.purging
+	}
+
+	/**
+	 * Stops the purge timer, waits for a purge in flight, then closes the cache's database
 	 */
 	async shutdown() {
-		if (this.interval) clearInterval(this.interval)
+		this.stopped = true
+		if (this.timer) clearTimeout(this.timer)
+		this.timer = undefined
+		await this.purging
+		await this.cache.close()
+		this.logger.info("Cache manager shut down")
+	}
+
+	private schedulePurge() {
+		if (this.timer || this.stopped) return
+		const delay = this.purgeInterval * (1 + Math.random() * this.purgeJitter)
+		this.timer = setTimeout(async () => {
+			await this.purge()
+			this.timer = undefined
+			this.schedulePurge()
+		}, delay * 1000)
 	}
 
-	private initPurgeTimer() {
-		if (this.interval) return
-		const tbd = Math.min(this.cache.tbd, 3600)
-		console.log("  Cache manager inited, will start to purge in %ds", tbd)
-		this.interval = setInterval(() => {
-			const start = process.hrtime()
-			const rv = this.cache.purge()
-			console.log(start, "purge", `purged all ${rv} inactive record(s)`)
-		}, tbd * 1000)
+	private async runPurge(): Promise<number> {
+		const start = process.hrtime.bigint()
+		try {
+			const purged = await this.cache.purge({ limit: this.purgeBudget, batchSize: this.purgeBatchSize })
+			const ms = Number(process.hrtime.bigint() - start) / 1e6
+			const rest = purged >= this.purgeBudget ? ", more are left for the next run" : ""
+			this.logger.info(`Purged ${purged} expired entries in ${ms.toFixed(1)}ms${rest}`)
+			return purged
+		} catch (err) {
+			this.logger.error("Purge failed", err)
+			return 0
+		}
 	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview
+ * Command-line tool for inspecting and maintaining a cache, built on `Cache`.
+ *
+ * Usage: xxstache [--path <dir>] [--db <file>] [--json] <command> [args]
+ */
+
+import fs from "fs-extra"
+import { Readable, Writable } from "stream"
+import { pipeline } from "stream/promises"
+import { parseArgs } from "util"
+
+import Cache, { KeyFilter, MergePolicy } from "./index"
+
+const USAGE = `Usage: xxstache [options] <command> [args]
+
+Commands:
+  stats                  Counters, entry counts and stored bytes
+  ls [pattern]           List keys, optionally matching a GLOB pattern
+  get <key>              Write a value to stdout, or to --out
+  set <key> <file>       Store a file ("-" for stdin) as a value
+  del <key>              Delete an entry
+  purge                  Remove expired entries
+  verify                 Check every value against its checksum
+  vacuum                 Reclaim unused space in the database file and its log
+  export [pattern]       Write entries to an archive on stdout, or to --out
+  import [file]          Read an archive written by export from a file, or stdin
+
+Options:
+  --path <dir>           Directory of file-backed values (CacheOptions.path)
+  --db <file>            SQLite database (CacheOptions.dbPath)
+  --json                 Print results as JSON
+  -o, --out <file>       Output file for get and export
+  --ttl <seconds>        TTL of entries stored by set
+  --prefix <prefix>      Only list or export keys starting with prefix
+  --status <status>      Only list or export "hit" or "stale" entries
+  --storage <storage>    Only list or export "db" or "disk" entries
+  --repair               Remove corrupt entries found by verify
+  --policy <policy>      How import treats existing keys: "overwrite",
+                         "keep-newer" or "skip-existing" (default: overwrite)
+  --no-rebase            Keep the expiry times of imported entries, instead of
+                         starting their remaining TTL at import time
+  -h, --help             Show this help
+`
+
+/**
+ * Streams the CLI reads from and writes to.
+ */
+export interface CliIO {
+	stdin: Readable
+	stdout: Writable
+	stderr: Writable
+}
+
+/**
+ * Runs the CLI with the given arguments (without the node and script paths).
+ *
+ * @returns The exit code: 0 on success, 1 when the command failed, 2 on a usage error
+ */
+export async function main(argv: string[], io: CliIO = process): Promise<number> {
+	let args: ReturnType<typeof parse>
+	try {
+		args = parse(argv)
+	} catch (err) {
+		io.stderr.write(`xxstache: ${(err as Error).message}\n\n${USAGE}`)
+		return 2
+	}
+	const { values: options, positionals: [command, ...operands] } = args
+	if (options.help || !command) {
+		io.stdout.write(USAGE)
+		return options.help ? 0 : 2
+	}
+
+	const print = (result: unknown, text: string) => {
+		io.stdout.write((options.json ? JSON.stringify(result, null, 2) : text) + "\n")
+	}
+	const operand = (name: string, i = 0) => {
+		if (operands[i] === undefined) throw new UsageError(`${command} needs a <${name}> argument`)
+		return operands[i]
+	}
+	const filter: KeyFilter = {
+		prefix: options.prefix,
+		pattern: operands[0],
+		status: options.status as KeyFilter["status"],
+		storage: options.storage as KeyFilter["storage"],
+	}
+	const ttl = options.ttl === undefined ? undefined : Number(options.ttl)
+
+	let cache: Cache | undefined
+	try {
+		if (!COMMANDS.includes(command)) throw new UsageError(`Unknown command "${command}"`)
+		if (ttl !== undefined && !(ttl > 0)) throw new UsageError("--ttl must be a positive number of seconds")
+		if (filter.status && !["hit", "stale"].includes(filter.status)) throw new UsageError("--status must be \"hit\" or \"stale\"")
+		if (filter.storage && !["db", "disk"].includes(filter.storage)) throw new UsageError("--storage must be \"db\" or \"disk\"")
+		if (options.policy && !POLICIES.includes(options.policy)) throw new UsageError(`--policy must be one of ${POLICIES.join(", ")}`)
+		cache = new Cache({ path: options.path, dbPath: options.db })
+
+		switch (command) {
+		case "stats": {
+			const stats = await cache.stats()
+			const totals = Object.entries(stats).filter(([, value]) => typeof value === "number")
+			print(stats, totals.map(([name, value]) => `${name}: ${value}`).join("\n"))
+			break
+		}
+		case "ls": {
+			const keys: string[] = []
+			for await (const key of cache.keys(filter)) keys.push(key)
+			if (options.json || keys.length > 0) print(keys, keys.join("\n"))
+			break
+		}
+		case "get": {
+			const key = operand("key")
+			const stream = await cache.getStream(key)
+			if (!stream) {
+				io.stderr.write(`xxstache: Key "${key}" not found\n`)
+				return 1
+			}
+			if (options.out) await pipeline(stream, fs.createWriteStream(options.out))
+			else await pipeline(stream, io.stdout, { end: false })
+			break
+		}
+		case "set": {
+			const key = operand("key")
+			const file = operand("file", 1)
+			await cache.setStream(key, file === "-" ? io.stdin : fs.createReadStream(file), ttl)
+			print({ key, status: await cache.has(key) }, `Stored "${key}"`)
+			break
+		}
+		case "del": {
+			const key = operand("key")
+			const deleted = (await cache.has(key)) !== "miss"
+			await cache.del(key)
+			print({ key, deleted }, deleted ? `Deleted "${key}"` : `Key "${key}" not found`)
+			break
+		}
+		case "purge": {
+			const purged = await cache.purge()
+			print({ purged }, `Purged ${purged} expired entries`)
+			break
+		}
+		case "verify": {
+			const report = await cache.verify({ repair: options.repair })
+			const lines = [`Checked ${report.checked} entries, ${report.unchecked} without a checksum, ${report.corrupt.length} corrupt`]
+			for (const { key, reason } of report.corrupt) lines.push(`${key}: ${reason}${options.repair ? " (removed)" : ""}`)
+			print(report, lines.join("\n"))
+			if (report.corrupt.length > 0 && !options.repair) return 1
+			break
+		}
+		case "vacuum": {
+			const { before, after } = await cache.compact()
+			print({ before, after }, `Database shrunk from ${before} to ${after} bytes`)
+			break
+		}
+		case "export": {
+			if (options.out) {
+				const exported = await cache.export(fs.createWriteStream(options.out), filter)
+				print({ exported }, `Exported ${exported} entries to ${options.out}`)
+			} else {
+				await cache.export(io.stdout, filter)
+			}
+			break
+		}
+		case "import": {
+			const input = operands[0] === undefined || operands[0] === "-" ? io.stdin : fs.createReadStream(operands[0])
+			const report = await cache.import(input, { policy: options.policy as MergePolicy | undefined, rebase: !options["no-rebase"] })
+			print(report, `Imported ${report.imported} entries, skipped ${report.skipped}`)
+			break
+		}
+		}
+		return 0
+	} catch (err) {
+		io.stderr.write(`xxstache: ${(err as Error).message}\n`)
+		if (err instanceof UsageError) io.stderr.write(`\n${USAGE}`)
+		return err instanceof UsageError ? 2 : 1
+	} finally {
+		await cache?.close()
+	}
+}
+
+const COMMANDS = ["stats", "ls", "get", "set", "del", "purge", "verify", "vacuum", "export", "import"]
+const POLICIES: string[] = ["overwrite", "keep-newer", "skip-existing"] satisfies MergePolicy[]
+
+class UsageError extends Error {}
+
+function parse(argv: string[]) {
+	return parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			path: { type: "string" },
+			db: { type: "string" },
+			json: { type: "boolean" },
+			out: { type: "string", short: "o" },
+			ttl: { type: "string" },
+			prefix: { type: "string" },
+			status: { type: "string" },
+			storage: { type: "string" },
+			repair: { type: "boolean" },
+			policy: { type: "string" },
+			"no-rebase": { type: "boolean" },
+			help: { type: "boolean", short: "h" },
+		},
+	})
+}
+
+if (require.main === module) {
+	main(process.argv.slice(2)).then((code) => {
+		process.exitCode = code
+	})
+}
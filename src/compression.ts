@@ -0,0 +1,54 @@
+import { promisify } from "util"
+import {
+	brotliCompress,
+	brotliDecompress,
+	createBrotliDecompress,
+	createGunzip,
+	createInflate,
+	deflate,
+	gunzip,
+	gzip,
+	inflate,
+} from "zlib"
+import { Transform } from "stream"
+
+/**
+ * Compression algorithms supported for stored values.
+ */
+export type CompressionAlgorithm = "gzip" | "deflate" | "brotli"
+
+interface Codec {
+	compress: (data: Buffer) => Promise<Buffer>
+	decompress: (data: Buffer) => Promise<Buffer>
+	decompressStream: () => Transform
+}
+
+const codecs: Record<CompressionAlgorithm, Codec> = {
+	gzip: { compress: promisify(gzip), decompress: promisify(gunzip), decompressStream: createGunzip },
+	deflate: { compress: promisify(deflate), decompress: promisify(inflate), decompressStream: createInflate },
+	brotli: { compress: promisify(brotliCompress), decompress: promisify(brotliDecompress), decompressStream: createBrotliDecompress },
+}
+
+function getCodec(algorithm: string) {
+	const codec = codecs[algorithm as CompressionAlgorithm]
+	if (!codec) throw new Error(`Unknown compression algorithm "${algorithm}"`)
+	return codec
+}
+
+export function compress(algorithm: CompressionAlgorithm, data: Buffer): Promise<Buffer> {
+	return getCodec(algorithm).compress(data)
+}
+
+/**
+ * Decompresses a stored value with the algorithm recorded for its entry.
+ */
+export function decompress(algorithm: string, data: Buffer): Promise<Buffer> {
+	return getCodec(algorithm).decompress(data)
+}
+
+/**
+ * Creates a transform stream that decompresses a stored value with the algorithm recorded for its entry.
+ */
+export function decompressStream(algorithm: string): Transform {
+	return getCodec(algorithm).decompressStream()
+}
@@ -1,2 +1,14 @@
 export const DEFAULT_DB_NAME = "cache.db"
-export const DEFAULT_DIRECTORY_NAME = "hdc"
\ No newline at end of file
+export const DEFAULT_DIRECTORY_NAME = "hdc"
+// files younger than this (in seconds) may still be in the middle of a write
+export const DEFAULT_RECONCILE_MIN_AGE = 60
+// ms to wait for another process's SQLite write lock
+export const DEFAULT_BUSY_TIMEOUT = 5000
+// seconds before a purge/eviction lease of a crashed process expires
+export const DEFAULT_LEASE_TTL = 60
+// max file reads and writes in flight at once
+export const DEFAULT_IO_CONCURRENCY = 8
+// expired entries deleted per purge transaction
+export const DEFAULT_PURGE_BATCH_SIZE = 500
+// max expired entries the Adapter purges per run
+export const DEFAULT_PURGE_BUDGET = 10000
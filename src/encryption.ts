@@ -0,0 +1,156 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from "crypto"
+import fs from "fs-extra"
+import { pipeline, Readable, Transform } from "stream"
+
+/**
+ * An AES-256 key and the ID stored with the entries it encrypts.
+ */
+export interface EncryptionKey {
+	id: string
+	/** 32 bytes */
+	key: Buffer
+}
+
+/**
+ * Returns the keyring: the first key encrypts new entries, and each key decrypts the entries
+ * written under its ID.
+ */
+export type KeyProvider = () => EncryptionKey[] | Promise<EncryptionKey[]>
+
+/**
+ * Options of encryption at rest.
+ */
+export interface EncryptionOptions {
+	keys: KeyProvider
+	/** Re-encrypt entries written under an older key (or before encryption was enabled) with the current key when get() reads them. Default: true */
+	reencryptOnRead?: boolean
+}
+
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+interface LoadedKeys {
+	current: EncryptionKey
+	byId: Map<string, EncryptionKey>
+	/** Derived from the current key, so file names can't be computed from keys alone */
+	nameKey: Buffer
+}
+
+/**
+ * Keys loaded from a key provider. The provider is called once, and again by reload() or when an
+ * entry was written under a key ID the keyring doesn't know yet, e.g. by a process that was
+ * rotated first.
+ */
+export class Keyring {
+	private loaded: Promise<LoadedKeys> | undefined
+
+	constructor(private provider: KeyProvider) {}
+
+	reload(): Promise<LoadedKeys> {
+		const loaded = this.load()
+		// a failed load is retried on next use
+		loaded.catch(() => {
+			if (this.loaded === loaded) this.loaded = undefined
+		})
+		this.loaded = loaded
+		return loaded
+	}
+
+	private async load(): Promise<LoadedKeys> {
+		const keys = await this.provider()
+		if (keys.length === 0) throw new Error("The encryption key provider returned no keys")
+		for (const { id, key } of keys) {
+			if (key.length !== 32) throw new Error(`Encryption key "${id}" must be 32 bytes, got ${key.length}`)
+		}
+		const nameKey = Buffer.from(hkdfSync("sha256", keys[0].key, "", "xxstache file names", 32))
+		return { current: keys[0], byId: new Map(keys.map((k) => [k.id, k])), nameKey }
+	}
+
+	async current(): Promise<EncryptionKey> {
+		return (await (this.loaded ?? this.reload())).current
+	}
+
+	/**
+	 * Finds a key by ID, reloading the keyring once if it isn't there.
+	 */
+	async find(id: string): Promise<EncryptionKey> {
+		const key = (await (this.loaded ?? this.reload())).byId.get(id) ?? (await this.reload()).byId.get(id)
+		if (!key) throw new Error(`Unknown encryption key "${id}"`)
+		return key
+	}
+
+	/**
+	 * Keyed hash of a cache key, used for file names instead of xxhash64, which anyone could
+	 * compute from a guessed key.
+	 */
+	async hash(key: string): Promise<bigint> {
+		const { nameKey } = await (this.loaded ?? this.reload())
+		return createHmac("sha256", nameKey).update(key).digest().readBigUInt64BE(0)
+	}
+}
+
+/**
+ * Encrypts data with AES-256-GCM, as IV, ciphertext and auth tag. The cache key is authenticated
+ * too, so bytes copied to another entry don't decrypt.
+ */
+export function encrypt(key: Buffer, data: Buffer, aad: string): Buffer {
+	const iv = randomBytes(IV_LENGTH)
+	const cipher = createCipheriv("aes-256-gcm", key, iv).setAAD(Buffer.from(aad))
+	return Buffer.concat([iv, cipher.update(data), cipher.final(), cipher.getAuthTag()])
+}
+
+export function decrypt(key: Buffer, data: Buffer, aad: string): Buffer {
+	if (data.length < IV_LENGTH + TAG_LENGTH) throw new Error("Encrypted value is truncated")
+	const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_LENGTH))
+		.setAAD(Buffer.from(aad))
+		.setAuthTag(data.subarray(data.length - TAG_LENGTH))
+	return Buffer.concat([decipher.update(data.subarray(IV_LENGTH, data.length - TAG_LENGTH)), decipher.final()])
+}
+
+/**
+ * Creates a transform stream that encrypts like encrypt().
+ */
+export function encryptStream(key: Buffer, aad: string): Transform {
+	const iv = randomBytes(IV_LENGTH)
+	const cipher = createCipheriv("aes-256-gcm", key, iv).setAAD(Buffer.from(aad))
+	let started = false
+	return new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			if (!started) {
+				started = true
+				this.push(iv)
+			}
+			callback(null, cipher.update(chunk))
+		},
+		flush(callback) {
+			if (!started) this.push(iv)
+			this.push(cipher.final())
+			callback(null, cipher.getAuthTag())
+		},
+	})
+}
+
+/**
+ * Streams the decrypted content of a file written by encrypt() or encryptStream(). The auth tag
+ * is only checked at the end: a tampered file fails the stream after its bytes were emitted.
+ */
+export async function decryptFile(key: Buffer, file: string, aad: string): Promise<Readable> {
+	const iv = Buffer.alloc(IV_LENGTH)
+	const tag = Buffer.alloc(TAG_LENGTH)
+	const fd = await fs.open(file, "r")
+	let size: number
+	try {
+		size = (await fs.fstat(fd)).size
+		if (size < IV_LENGTH + TAG_LENGTH) throw new Error("Encrypted value is truncated")
+		await fs.read(fd, iv, 0, IV_LENGTH, 0)
+		await fs.read(fd, tag, 0, TAG_LENGTH, size - TAG_LENGTH)
+	} finally {
+		await fs.close(fd)
+	}
+	const decipher = createDecipheriv("aes-256-gcm", key, iv).setAAD(Buffer.from(aad)).setAuthTag(tag)
+	const ciphertext = size > IV_LENGTH + TAG_LENGTH
+		? fs.createReadStream(file, { start: IV_LENGTH, end: size - TAG_LENGTH - 1 })
+		: Readable.from([])
+	// errors from the file stream are forwarded to the decrypted stream
+	return pipeline(ciphertext, decipher, () => {})
+}
@@ -0,0 +1,28 @@
+/**
+ * Why an entry was evicted:
+ * - "lru": maxEntries was exceeded
+ * - "size": a byte budget (maxSize, maxDbSize, maxDiskSize) was exceeded
+ * - "expired": purge() removed it after its TTL and grace period
+ */
+export type EvictReason = "lru" | "size" | "expired"
+
+/**
+ * Events emitted by a cache, with the arguments their listeners receive.
+ * Listeners run synchronously, right after the operation, and their errors are ignored.
+ */
+export interface CacheEvents {
+	/** An entry was written */
+	set: [event: { key: string; size: number; storage: "db" | "disk" }]
+	/** A read found the key. `stale` is true when the entry had expired. */
+	hit: [event: { key: string; stale: boolean }]
+	/** A read didn't find the key, or found its file gone or its value corrupt */
+	miss: [event: { key: string }]
+	/** An entry was deleted by del(), deleteMatching() or tag invalidation */
+	delete: [event: { key: string }]
+	/** An entry was evicted */
+	evict: [event: { key: string; reason: EvictReason }]
+	/** purge() finished, removing `count` expired entries */
+	purge: [event: { count: number }]
+	/** A corrupt entry was found and removed */
+	corrupt: [event: { key: string; reason: "checksum" | "missing" }]
+}
@@ -0,0 +1,252 @@
+import Cache from "./"
+
+/**
+ * Options of an HTTP response cache.
+ */
+export interface HttpCacheOptions {
+	/** fetch implementation to wrap. Default: the global fetch */
+	fetch?: typeof fetch
+	/** Behave as a shared cache: prefer `s-maxage`, and don't store `private` responses, responses to requests with `Authorization`, or `Set-Cookie` headers. Default: true */
+	shared?: boolean
+	/** Freshness in seconds of responses without `Cache-Control` max-age or `Expires`. Default: 0 (only stored when they can be revalidated) */
+	defaultTtl?: number
+	/** Prefix of the cache keys of responses. Default: "http:" */
+	keyPrefix?: string
+}
+
+/**
+ * What the cache did for a request, reported in the `x-cache` header of its response.
+ * - "HIT": Served from the cache
+ * - "MISS": Fetched, and stored if cacheable
+ * - "REVALIDATED": Stale, confirmed by a 304 and served from the cache
+ */
+export type HttpCacheStatus = "HIT" | "MISS" | "REVALIDATED"
+
+/**
+ * Stored with the body of each response.
+ */
+interface ResponseMeta {
+	status: number
+	statusText: string
+	headers: Array<[string, string]>
+	/** When the entry stops being fresh, in seconds */
+	expires: number
+}
+
+/** Statuses that can be stored without explicit freshness information (RFC 9110, section 15.1) */
+const HEURISTIC_STATUSES = new Set([200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501])
+
+/** Headers that describe the body as sent, while fetch hands over the decoded body that is stored */
+const TRANSFER_HEADERS = new Set(["content-encoding", "content-length"])
+
+/** Statuses whose responses can't have a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+/**
+ * Caches HTTP GET responses in a Cache, following Cache-Control, Expires, ETag, Last-Modified and
+ * Vary. Status, headers and body are stored as one entry, with the response's freshness as TTL.
+ * Stale entries are kept for the cache's `tbd` grace period, and revalidated with a conditional
+ * request when they have a validator.
+ *
+ * @example
+ * ```typescript
+ * const http = new HttpCache(new Cache({ path: '/tmp/http' }))
+ * const res = await http.fetch('https://api.example.com/users/1')
+ * console.log(res.headers.get('x-cache'), await res.json())
+ * ```
+ */
+export class HttpCache {
+	cache: Cache
+	shared = true
+	defaultTtl = 0
+	keyPrefix = "http:"
+	private fetcher: typeof fetch
+
+	constructor(cache: Cache, { fetch: fetcher, shared, defaultTtl, keyPrefix }: HttpCacheOptions = {}) {
+		this.cache = cache
+		this.fetcher = fetcher ?? globalThis.fetch
+		if (shared !== undefined) this.shared = shared
+		if (defaultTtl !== undefined) this.defaultTtl = defaultTtl
+		if (keyPrefix !== undefined) this.keyPrefix = keyPrefix
+	}
+
+	/**
+	 * Fetches a resource through the cache, like the global fetch. Only GET requests are cached;
+	 * other methods go straight to the network.
+	 *
+	 * @param input - URL or Request
+	 * @param init - Request options
+	 * @returns The response, with an `x-cache` header telling where it came from
+	 *
+	 * @example
+	 * ```typescript
+	 * const res = await http.fetch(url, { headers: { accept: 'application/json' } })
+	 * ```
+	 */
+	async fetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+		const request = new Request(input, init)
+		const directives = parseCacheControl(request.headers.get("cache-control"))
+		if (request.method !== "GET" || directives.has("no-store")) return this.fetcher(request)
+
+		const resource = `${request.method} ${request.url}`
+		const base = this.keyPrefix + resource
+		const varyNames = await this._varyNames(resource)
+		const key = varyNames ? variantKey(base, varyNames, request) : undefined
+		const stored = key ? await this.cache.get(key) : undefined
+		const entry = stored && decodeEntry(stored)
+		const now = Date.now() / 1000
+
+		if (entry && entry.meta.expires > now && !directives.has("no-cache")) {
+			return toResponse(entry.meta, entry.body, "HIT")
+		}
+
+		const headers = new Headers(request.headers)
+		if (entry) {
+			const etag = header(entry.meta, "etag")
+			const lastModified = header(entry.meta, "last-modified")
+			if (etag) headers.set("if-none-match", etag)
+			if (lastModified) headers.set("if-modified-since", lastModified)
+		}
+		const response = await this.fetcher(new Request(request, { headers }))
+
+		if (entry && key && response.status === 304) {
+			// Headers of the 304 update the stored ones, including the freshness information
+			const updated = new Headers(entry.meta.headers)
+			response.headers.forEach((value, name) => {
+				if (!TRANSFER_HEADERS.has(name)) updated.set(name, value)
+			})
+			const meta = { ...entry.meta, headers: [...updated] }
+			await this._store(resource, key, varyNames!, meta, entry.body)
+			return toResponse(meta, entry.body, "REVALIDATED")
+		}
+
+		const body = Buffer.from(await response.arrayBuffer())
+		const meta: ResponseMeta = { status: response.status, statusText: response.statusText, headers: [...response.headers], expires: 0 }
+		const names = parseVary(response.headers.get("vary"))
+		if (names && this._storable(request, response)) {
+			// the caller still gets the cookies, only the stored copy goes without them
+			const headers = meta.headers.filter(([name]) => !TRANSFER_HEADERS.has(name) && !(this.shared && name === "set-cookie"))
+			const stored = { ...meta, headers }
+			await this._store(resource, variantKey(base, names, request), names, stored, body)
+		} else if (key) {
+			await this.cache.del(key)
+		}
+		return toResponse(meta, body, "MISS")
+	}
+
+	/**
+	 * Whether a response may be stored at all (RFC 9111, section 3).
+	 */
+	private _storable(request: Request, response: Response): boolean {
+		const directives = parseCacheControl(response.headers.get("cache-control"))
+		// partial and not modified responses don't hold a full representation
+		if (response.status === 206 || response.status === 304) return false
+		if (directives.has("no-store")) return false
+		if (this.shared && directives.has("private")) return false
+		if (this.shared && request.headers.has("authorization") && !directives.has("public") && !directives.has("s-maxage")) return false
+		const explicit = directives.has("max-age") || (this.shared && directives.has("s-maxage")) || response.headers.has("expires")
+		return explicit || HEURISTIC_STATUSES.has(response.status)
+	}
+
+	/**
+	 * Stores a response under its variant key, and the Vary field names of the resource next to it,
+	 * with the response's remaining freshness as TTL. Responses that are already stale are only
+	 * stored if they can be revalidated.
+	 */
+	private async _store(resource: string, key: string, varyNames: string[], meta: ResponseMeta, body: Buffer) {
+		const ttl = this._freshness(meta)
+		const now = Date.now() / 1000
+		meta.expires = now + ttl
+		if (ttl <= 0 && !header(meta, "etag") && !header(meta, "last-modified")) {
+			await this.cache.del(key)
+			return
+		}
+		// A TTL of 0 would fall back to the cache's default TTL: stale entries get a negative one,
+		// so they are kept for the tbd grace period and revalidated on next use
+		const entryTtl = ttl > 0 ? ttl : -1
+		// the field names outlive the responses, which are kept until purged
+		await this.cache.set(`${this.keyPrefix}vary:${resource}`, Buffer.from(JSON.stringify(varyNames)), Math.max(entryTtl, 0) + this.cache.tbd)
+		await this.cache.set(key, encodeEntry(meta, body), entryTtl)
+	}
+
+	/**
+	 * Remaining freshness of a response in seconds (RFC 9111, section 4.2).
+	 */
+	private _freshness(meta: ResponseMeta): number {
+		const directives = parseCacheControl(header(meta, "cache-control"))
+		if (directives.has("no-cache")) return 0
+		const age = Number(header(meta, "age")) || 0
+		const maxAge = (this.shared && directives.get("s-maxage")) || directives.get("max-age")
+		if (maxAge !== undefined) return (Number(maxAge) || 0) - age
+		const expires = header(meta, "expires")
+		if (expires !== undefined) {
+			const date = Date.parse(header(meta, "date") ?? "")
+			// invalid dates, like "0", mean already expired
+			const lifetime = (Date.parse(expires) - (Number.isNaN(date) ? Date.now() : date)) / 1000
+			return Number.isNaN(lifetime) ? 0 : lifetime - age
+		}
+		return this.defaultTtl - age
+	}
+
+	/**
+	 * Vary field names stored for a method and URL, or undefined if no response is stored for them.
+	 */
+	private async _varyNames(resource: string): Promise<string[] | undefined> {
+		const stored = await this.cache.get(`${this.keyPrefix}vary:${resource}`)
+		return stored && (JSON.parse(stored.toString()) as string[])
+	}
+}
+
+/**
+ * Cache key of the response to a request: the method and URL, and the values of the request
+ * headers named by Vary.
+ */
+function variantKey(base: string, varyNames: string[], request: Request): string {
+	return base + varyNames.map((name) => `\n${name}: ${request.headers.get(name) ?? ""}`).join("")
+}
+
+/**
+ * Lowercase, sorted field names of a Vary header, or undefined for `Vary: *`, which can't be matched.
+ */
+function parseVary(value: string | null): string[] | undefined {
+	const names = (value ?? "").split(",").map((name) => name.trim().toLowerCase()).filter(Boolean)
+	if (names.includes("*")) return undefined
+	return [...new Set(names)].sort()
+}
+
+/**
+ * Directives of a Cache-Control header, by lowercase name, with their unquoted argument if any.
+ */
+function parseCacheControl(value: string | null | undefined): Map<string, string | undefined> {
+	const directives = new Map<string, string | undefined>()
+	for (const part of (value ?? "").split(",")) {
+		const [name, arg] = part.split("=", 2).map((s) => s.trim())
+		if (name) directives.set(name.toLowerCase(), arg?.replace(/^"(.*)"$/, "$1"))
+	}
+	return directives
+}
+
+function header(meta: ResponseMeta, name: string): string | undefined {
+	return meta.headers.find(([n]) => n === name)?.[1]
+}
+
+/**
+ * Stores meta and body as one value: the length of the JSON meta, the meta, then the body.
+ */
+function encodeEntry(meta: ResponseMeta, body: Buffer): Buffer {
+	const json = Buffer.from(JSON.stringify(meta))
+	const length = Buffer.alloc(4)
+	length.writeUInt32BE(json.length)
+	return Buffer.concat([length, json, body])
+}
+
+function decodeEntry(data: Buffer): { meta: ResponseMeta; body: Buffer } {
+	const length = data.readUInt32BE(0)
+	return { meta: JSON.parse(data.subarray(4, 4 + length).toString()), body: data.subarray(4 + length) }
+}
+
+function toResponse(meta: ResponseMeta, body: Buffer, status: HttpCacheStatus): Response {
+	const headers = new Headers(meta.headers)
+	headers.set("x-cache", status)
+	return new Response(NULL_BODY_STATUSES.has(meta.status) ? null : new Uint8Array(body), { status: meta.status, statusText: meta.statusText, headers })
+}
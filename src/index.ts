@@ -13,29 +13,61 @@
  * - High-performance SQLite with WAL mode
  */
 
-import SQLite3, { Database, Statement } from "better-sqlite3"
+import SQLite3, { Database, Statement, Transaction } from "better-sqlite3"
+import { EventEmitter } from "events"
 import fs from "fs-extra"
 import { join as pathJoin } from "path"
+import { createInterface } from "readline"
+import { pipeline, Readable, Writable } from "stream"
+import { pipeline as pipelineAsync } from "stream/promises"
+import { setImmediate as yieldToEventLoop } from "timers/promises"
 
 import {
+	collisionName,
 	createDirectoryIfDoesNotExists,
 	getDatabasePath,
 	getFileCachePath,
 	hasPersistentDatabaseLocation,
+	isNotFound,
+	KeyHash,
+	limiter,
+	listFiles,
+	moveFile,
+	uniqueName,
 	xxhname,
+	xxhcontent,
+	xxhchecksum,
 	removeFile,
 	purgeEmptyPath,
 	read,
+	readStream,
 	write,
+	writeStream,
+	writeTemp,
 } from "./utils"
+import { buffer as bufferSerializer, getSerializer, Serializer } from "./serializers"
+import { compress, CompressionAlgorithm, decompress, decompressStream } from "./compression"
+import { DEFAULT_BUSY_TIMEOUT, DEFAULT_IO_CONCURRENCY, DEFAULT_LEASE_TTL, DEFAULT_PURGE_BATCH_SIZE, DEFAULT_RECONCILE_MIN_AGE } from "./consts"
+import { CacheStats, emptyCounters, formatPrometheus, Metrics, PrefixStats, Usage } from "./metrics"
+import { CacheEvents } from "./events"
+import { MemoryOptions, MemoryTier } from "./memory"
+import { decrypt, decryptFile, encrypt, EncryptionOptions, encryptStream, Keyring } from "./encryption"
+import { migrate } from "./migrations"
+import { closeEphemeralStore, isDeadStore, isStore, openEphemeralStore } from "./stores"
 
 export { Adapter } from "./adapter"
-
-const DDL = `
-CREATE TABLE IF NOT EXISTS cache (key TEXT PRIMARY KEY, value BLOB, filename TEXT, ttl REAL NOT NULL, atime REAL NOT NULL);
-CREATE INDEX IF NOT EXISTS cache_ttl ON cache (ttl);
-CREATE INDEX IF NOT EXISTS cache_atime ON cache (atime);
-`
+export type { AdapterArgs, AdapterLogger, AdapterOptions } from "./adapter"
+export { HttpCache } from "./http"
+export type { HttpCacheOptions, HttpCacheStatus } from "./http"
+export * as serializers from "./serializers"
+export type { Serializer } from "./serializers"
+export type { CompressionAlgorithm } from "./compression"
+export type { KeyHash } from "./utils"
+export type { CacheStats, Counters, PrefixStats, Usage } from "./metrics"
+export type { CacheEvents, EvictReason } from "./events"
+export type { MemoryOptions, MemoryStats } from "./memory"
+export type { EncryptionKey, EncryptionOptions, KeyProvider } from "./encryption"
+export { SCHEMA_VERSION } from "./migrations"
 
 /**
  * Cache entry status indicating whether a key exists and its freshness.
@@ -43,7 +75,7 @@ CREATE INDEX IF NOT EXISTS cache_atime ON cache (atime);
  * - "stale": Key exists but has expired
  * - "miss": Key does not exist in cache
  */
-type CacheStatus = "hit" | "stale" | "miss"
+export type CacheStatus = "hit" | "stale" | "miss"
 
 interface CacheRow {
 	key?: string
@@ -51,11 +83,23 @@ interface CacheRow {
 	filename?: string | null
 	ttl?: number
 	atime?: number
+	size?: number
+	codec?: string | null
+	compression?: string | null
+	checksum?: string | null
+	keyId?: string | null
+	sliding?: number | null
 }
 
 interface CacheRowWithValue extends CacheRow {
 	value: Buffer | null
 	filename: string | null
+	ttl: number
+	codec: string | null
+	compression: string | null
+	checksum: string | null
+	keyId: string | null
+	sliding: number | null
 }
 
 interface CacheRowWithTtl extends CacheRow {
@@ -67,6 +111,240 @@ interface CacheRowWithFilename extends CacheRow {
 	key: string
 }
 
+interface CacheRowWithSize extends CacheRowWithFilename {
+	size: number
+}
+
+interface CacheInsertRow {
+	key: string
+	value: Buffer | null
+	filename: string | null
+	ttl: number
+	atime: number
+	size: number
+	codec: string
+	compression: CompressionAlgorithm | null
+	checksum: string
+	keyId: string | null
+	sliding: number | null
+}
+
+/**
+ * When an entry expires: its expiry time in seconds, like the ttl column, and the window reads
+ * push it forward by, if it slides.
+ */
+interface Expiry {
+	ttl: number
+	sliding: number | null
+}
+
+/**
+ * Stored bytes of an entry re-encrypted under another key, to commit unless the entry changed
+ * since it was read.
+ */
+interface CacheReencrypt {
+	key: string
+	value: Buffer | null
+	filename: string | null
+	size: number
+	checksum: string
+	keyId: string
+	/** Checksum of the bytes that were re-encrypted */
+	previous: string | null
+	/** Temporary file to move to filename right before the row is updated, cleared once moved */
+	tmp?: string
+}
+
+interface CacheWrite<T = unknown> {
+	row: CacheInsertRow
+	tags?: string[]
+	/** Decoded value, kept in the memory tier once the row is committed */
+	value?: T
+	/** Serialized length of value, which the memory tier is charged rather than the stored size */
+	memorySize?: number
+	/** Bytes to write to row.filename when the row is committed */
+	data?: Buffer
+	/** Temporary file to move to row.filename right before the row is committed, cleared once moved */
+	tmp?: string
+}
+
+/**
+ * An entry whose stored bytes don't match their checksum, or whose file is missing.
+ */
+export interface CorruptEntry {
+	key: string
+	reason: "checksum" | "missing"
+}
+
+/**
+ * Result of `verify()`.
+ */
+export interface VerifyReport {
+	/** Number of entries whose checksum was verified */
+	checked: number
+	/** Number of entries written before checksums were recorded, which can't be verified */
+	unchecked: number
+	corrupt: CorruptEntry[]
+}
+
+/**
+ * What `reconcile()` fixed.
+ */
+export interface ReconcileReport {
+	/** Files no entry points to, which were removed, relative to path */
+	orphans: string[]
+	/** Temporary files left behind by interrupted writes, which were removed, relative to path */
+	temporary: string[]
+	/** Keys whose file was missing, which were dropped */
+	missing: string[]
+}
+
+/**
+ * Disk usage of file-backed entries, as reported by `dedupeStats()`.
+ */
+export interface DedupeStats {
+	/** Number of distinct files on disk */
+	files: number
+	/** Number of entries pointing to a file */
+	references: number
+	/** Bytes actually stored on disk */
+	storedBytes: number
+	/** Bytes that would be stored if every entry had its own file */
+	logicalBytes: number
+	/** logicalBytes - storedBytes */
+	savedBytes: number
+}
+
+/**
+ * Per-entry options accepted by `set()`.
+ */
+export interface SetOptions {
+	/** Time to live in seconds for this entry (overrides the cache default). */
+	ttl?: number
+	/** When this entry expires, instead of a ttl. */
+	expiresAt?: Date
+	/** Sliding expiration: every read that finds the entry fresh pushes its expiry forward by its TTL again. Default: false */
+	sliding?: boolean
+	/** Tags linking this entry to upstream records, for `invalidateTag()`. Replaces any previous tags of the key. */
+	tags?: string[]
+}
+
+/**
+ * Options accepted by `purge()`.
+ */
+export interface PurgeOptions {
+	/** Number of expired entries deleted per transaction. Default: 500 */
+	batchSize?: number
+	/** Stop after purging this many entries, leaving the rest for the next call. Default: no limit */
+	limit?: number
+}
+
+/**
+ * Result of `compact()`: size in bytes of the database, including its write-ahead log.
+ */
+export interface CompactReport {
+	before: number
+	after: number
+}
+
+/**
+ * How `import()` treats keys that are already in the cache.
+ * - "overwrite": Imported entries replace existing ones
+ * - "keep-newer": An existing entry is only replaced by an imported one that expires later
+ * - "skip-existing": Existing entries are left as they are
+ */
+export type MergePolicy = "overwrite" | "keep-newer" | "skip-existing"
+
+/**
+ * Options accepted by `import()`.
+ */
+export interface ImportOptions {
+	/** What to do with keys already in the cache. Default: "overwrite" */
+	policy?: MergePolicy
+	/** Start the remaining TTL of each entry at import time, instead of keeping the expiry time it had when exported. Default: true */
+	rebase?: boolean
+	/** Number of entries written per transaction. Default: 100 */
+	batchSize?: number
+}
+
+/**
+ * Result of `import()`.
+ */
+export interface ImportReport {
+	/** Entries written */
+	imported: number
+	/** Entries left out because of the merge policy */
+	skipped: number
+}
+
+/**
+ * First line of an export.
+ */
+interface ArchiveHeader {
+	format: "xxstache"
+	version: number
+	/** When the export started, in seconds */
+	exported: number
+}
+
+/**
+ * Line of an export for each entry.
+ */
+interface ArchiveEntry {
+	key: string
+	/** Codec that serialized the value */
+	codec: string
+	/** Seconds until the entry expires, from the time of the export (negative for expired entries), or null if it never does */
+	ttl: number | null
+	/** Sliding window in seconds, for entries with sliding expiration */
+	sliding?: number
+	tags?: string[]
+	/** Serialized value, uncompressed and unencrypted, in base64 */
+	value: string
+}
+
+const ARCHIVE_VERSION = 2
+
+/**
+ * Filters accepted by `keys()`, `values()`, `entries()` and `deleteMatching()`.
+ * All given filters must match.
+ */
+export interface KeyFilter {
+	/** Keys starting with this string */
+	prefix?: string
+	/** Keys matching this SQLite GLOB pattern (`*`, `?`, `[...]`, case sensitive) */
+	pattern?: string
+	/** Only fresh ("hit") or only expired ("stale") entries */
+	status?: "hit" | "stale"
+	/** Only entries stored as SQLite blobs ("db") or as files ("disk") */
+	storage?: "db" | "disk"
+	/** Number of rows read from SQLite at a time. Default: 100 */
+	batchSize?: number
+}
+
+/**
+ * Computes the value for a key that is missing from the cache.
+ */
+export type Loader<T = Buffer> = (key: string) => Promise<T> | T
+
+/**
+ * Options accepted by `fetch()`.
+ */
+export interface FetchOptions<T = Buffer> extends SetOptions {
+	/** Loader for this call (overrides the one registered in CacheOptions). */
+	loader?: Loader<T>
+	/** Refresh fresh entries in the background when they expire within this many seconds (overrides CacheOptions). */
+	refreshAhead?: number
+}
+
+/**
+ * Value returned by `fetch()`, with the status the entry had when it was read.
+ */
+export interface FetchResult<T = Buffer> {
+	value: T
+	status: CacheStatus
+}
+
 /**
  * Configuration options for the cache instance.
  *
@@ -76,12 +354,15 @@ interface CacheRowWithFilename extends CacheRow {
  *   path: '/tmp/my-cache',
  *   ttl: 7200,  // 2 hours
  *   maxInMemorySize: 5 * 1024,  // 5KB threshold
- *   maxEntries: 1000  // LRU eviction after 1000 entries
+ *   maxEntries: 1000,  // LRU eviction after 1000 entries
+ *   maxSize: 512 * 1024 * 1024  // LRU eviction above 512MB stored
  * })
+ *
+ * const users = new Cache<User>({ serializer: serializers.json<User>() })
  * ```
  */
-export interface CacheOptions {
-	/** Directory path for storing cached files. Defaults to OS temp directory. */
+export interface CacheOptions<T = Buffer> {
+	/** Directory path for storing cached files. Each database keeps its files in its own subdirectory, see `storePath`. Defaults to OS temp directory. */
 	path?: string
 	/** SQLite database path. Use "" or ":memory:" for in-memory, or a file path for persistent storage. */
 	dbPath?: "" | ":memory:" | string
@@ -93,13 +374,56 @@ export interface CacheOptions {
 	maxInMemorySize?: number
 	/** Maximum number of entries before LRU eviction kicks in. 0 or undefined means no limit. Default: undefined (no limit). */
 	maxEntries?: number
+	/** Maximum total bytes stored (SQLite blobs and files together) before LRU eviction kicks in. Default: undefined (no limit). */
+	maxSize?: number
+	/** Maximum bytes stored as SQLite blobs before LRU eviction of in-database entries. Default: undefined (no limit). */
+	maxDbSize?: number
+	/** Maximum bytes stored as files before LRU eviction of file-backed entries. Default: undefined (no limit). */
+	maxDiskSize?: number
+	/** Loader used by `fetch()` to fill misses and refresh stale entries in the background. */
+	loader?: Loader<T>
+	/** Seconds before expiry at which `fetch()` refreshes an entry in the background. Default: undefined (only stale entries are refreshed). */
+	refreshAhead?: number
+	/** Codec converting values to stored bytes. Built-ins: serializers.buffer, .string, .json(), .v8(). Default: serializers.buffer, so it is required unless T is Buffer. */
+	serializer?: Serializer<T>
+	/** Compress stored values with gzip, deflate or brotli. Default: undefined (no compression). */
+	compression?: CompressionAlgorithm
+	/** Minimum encoded size in bytes before a value is compressed. Default: 1024 (1KB). */
+	compressionThreshold?: number
+	/** Name disk files by a hash of their contents, so identical values under different keys share one file. Default: false. */
+	dedupe?: boolean
+	/** Verify each value's checksum in `get()`, treating a mismatch as a miss and removing the entry. Default: false. */
+	verifyOnRead?: boolean
+	/** Directory where the bytes of corrupt entries are moved instead of being deleted. Default: undefined (delete). */
+	quarantinePath?: string
+	/** Hash of a key to the 64-bit value its file name derives from. Default: xxhash64. */
+	hash?: KeyHash
+	/** Run `reconcile()` when the cache is constructed. Default: false. */
+	reconcileOnStart?: boolean
+	/** Break `stats()` down by key prefix: the part of a key before this delimiter. Default: undefined (no breakdown). */
+	metricsDelimiter?: string
+	/** Milliseconds to wait for another process's write lock before failing with SQLITE_BUSY. Default: 5000. */
+	busyTimeout?: number
+	/** Maximum number of file reads and writes in flight at once. Default: 8. */
+	ioConcurrency?: number
+	/** Keep hot decoded values in an in-process LRU tier in front of SQLite. Default: undefined (off). */
+	memory?: MemoryOptions
+	/** Encrypt stored values with AES-256-GCM, and derive file names from a keyed hash. Default: undefined (plaintext). */
+	encryption?: EncryptionOptions
 }
 
+/**
+ * Constructor arguments of a Cache<T>. Only a cache of Buffers may leave out its serializer, or
+ * the options altogether.
+ */
+export type CacheArgs<T> = [T] extends [Buffer] ? [options?: CacheOptions<T>] : [options: CacheOptions<T> & { serializer: Serializer<T> }]
+
 /**
  * Hybrid disk cache with automatic threshold-based storage strategy.
  *
  * Small values (< maxInMemorySize) are stored in SQLite for fast access.
  * Large values (≥ maxInMemorySize) are stored on disk to prevent database bloat.
+ * Values are Buffers unless a serializer is configured for another type.
  *
  * @example
  * ```typescript
@@ -109,14 +433,35 @@ export interface CacheOptions {
  * const value = await cache.get('key')
  * ```
  */
-class Cache {
+class Cache<T = Buffer> extends EventEmitter<CacheEvents> {
 	db: Database
 	ttl = 3600 // time to live
 	tbd = 3600 // time before deletion
 	maxInMemorySize = 10 * 1024 // size threshold for storing on disk
 	maxEntries: number | undefined = undefined // max entries before LRU eviction
+	maxSize: number | undefined = undefined // max total bytes before LRU eviction
+	maxDbSize: number | undefined = undefined // max bytes in SQLite blobs before LRU eviction
+	maxDiskSize: number | undefined = undefined // max bytes in files before LRU eviction
+	loader: Loader<T> | undefined = undefined // loader used by fetch()
+	refreshAhead: number | undefined = undefined // seconds before expiry to refresh in fetch()
+	serializer: Serializer<T> // codec for values
+	compression: CompressionAlgorithm | undefined = undefined // compression for stored values
+	compressionThreshold = 1024 // min size before compressing
+	dedupe = false // content-addressed disk files
+	verifyOnRead = false // check checksums on get()
+	quarantinePath: string | undefined = undefined // where corrupt entries are moved
+	corrupted = 0 // number of corrupt entries found
+	hash: KeyHash | undefined = undefined // key hash for file names, xxhash64 by default
+	metrics: Metrics // operation counters for stats()
+	busyTimeout = DEFAULT_BUSY_TIMEOUT // ms to wait for the SQLite write lock
+	ioConcurrency = DEFAULT_IO_CONCURRENCY // max file reads and writes in flight
+	memory: MemoryTier<T> | undefined = undefined // in-process LRU tier of decoded values
+	keyring: Keyring | undefined = undefined // encryption keys, when encryption is enabled
+	reencryptOnRead = true // re-encrypt entries under older keys in get()
 	public path: string
+	public storePath: string // directory of this database's files, a subdirectory of path
 	public dbPath: string
+	private store: string // name of storePath under path
 
 	// Prepared statements for performance - I just learnt about this
 	private stmtInsert: Statement
@@ -127,17 +472,62 @@ class Cache {
 	private stmtDelete: Statement
 	private stmtCountEntries: Statement
 	private stmtEvictLRU: Statement
+	private stmtTotalSize: Statement
+	private stmtDbSize: Statement
+	private stmtDiskSize: Statement
+	private stmtLRUBySize: Statement
+	private stmtLRUBySizeDb: Statement
+	private stmtLRUBySizeDisk: Statement
 	private stmtPurgeSelect: Statement
 	private stmtPurgeDelete: Statement
+	private stmtDeleteTags: Statement
+	private stmtInsertTag: Statement
+	private stmtKeysForTag: Statement
+	private stmtCountFilename: Statement
+	private stmtFilenameOwner: Statement
+	private stmtDeleteMissing: Statement
+	private stmtDeleteCorrupt: Statement
+	private stmtQuarantined: Statement
+	private stmtFileRows: Statement
+	private stmtUsage: Statement
+	private stmtUsageByPrefix: Statement
+	private stmtAcquireLease: Statement
+	private stmtReleaseLease: Statement
+	private stmtDedupeStats: Statement
+	private stmtVerifyBatch: Statement
+	private stmtReencryptBatch: Statement
+	private stmtGetChecksum: Statement
+	private stmtReencrypt: Statement
+	private stmtTagsForKey: Statement
+	private stmtClear: Statement
+	private stmtSlide: Statement
+	private stmtExpire: Statement
+	private stmtPersist: Statement
+
+	// Loader promises in flight, shared by concurrent getOrSet() callers of the same key
+	private inflight = new Map<string, Promise<T>>()
+
+	// Queues file reads and writes beyond ioConcurrency
+	private io: ReturnType<typeof limiter>
+
+	// Identifies this instance in cache_leases
+	private leaseOwner = `${process.pid}:${Math.random().toString(36).slice(2)}`
 
 	// Transaction wrapper for bulk inserts (synchronous body)
-	private insertManyTx!: (rows: Array<{ key: string; value: Buffer | null; filename: string | null; ttl: number; atime: number }>) => void
+	private insertManyTx!: Transaction<(writes: CacheWrite[]) => string[]>
+
+	// Transaction wrapper for removing unreferenced files
+	private delFileTx!: Transaction<(filename: string) => void>
+
+	// Transaction wrapper for re-encrypted entries, returning the row they replaced
+	private reencryptTx!: Transaction<(update: CacheReencrypt) => CacheRowWithFilename | undefined>
 
 	/**
 	 * Constructs a new cache instance.
 	 * @param options - Configuration options for the cache
 	 */
-	constructor({ path, ttl, tbd, dbPath, maxInMemorySize, maxEntries }: CacheOptions = {}) {
+	constructor(...[{ path, ttl, tbd, dbPath, maxInMemorySize, maxEntries, maxSize, maxDbSize, maxDiskSize, loader, refreshAhead, serializer, compression, compressionThreshold, dedupe, verifyOnRead, quarantinePath, hash, reconcileOnStart, metricsDelimiter, busyTimeout, ioConcurrency, memory, encryption } = {}]: CacheArgs<T>) {
+		super()
 		this.path = getFileCachePath(path)
 		this.dbPath = getDatabasePath(dbPath)
 
@@ -149,247 +539,1638 @@ class Cache {
 		if (tbd) this.tbd = tbd
 		if (maxInMemorySize) this.maxInMemorySize = maxInMemorySize
 		if (maxEntries !== undefined) this.maxEntries = maxEntries
+		if (maxSize !== undefined) this.maxSize = maxSize
+		if (maxDbSize !== undefined) this.maxDbSize = maxDbSize
+		if (maxDiskSize !== undefined) this.maxDiskSize = maxDiskSize
+		if (loader) this.loader = loader
+		if (refreshAhead) this.refreshAhead = refreshAhead
+		// CacheArgs only lets a Cache<Buffer> leave it out
+		this.serializer = (serializer ?? bufferSerializer) as Serializer<T>
+		if (compression) this.compression = compression
+		if (compressionThreshold !== undefined) this.compressionThreshold = compressionThreshold
+		if (dedupe) this.dedupe = dedupe
+		if (verifyOnRead) this.verifyOnRead = verifyOnRead
+		if (quarantinePath) this.quarantinePath = quarantinePath
+		if (encryption) {
+			this.keyring = new Keyring(encryption.keys)
+			if (encryption.reencryptOnRead !== undefined) this.reencryptOnRead = encryption.reencryptOnRead
+			// File names of guessable keys would otherwise give away which keys are cached
+			if (!hash) this.hash = (key) => this.keyring!.hash(key)
+		}
+		if (hash) this.hash = hash
+		this.metrics = new Metrics(metricsDelimiter)
+		if (busyTimeout !== undefined) this.busyTimeout = busyTimeout
+		if (ioConcurrency) this.ioConcurrency = ioConcurrency
+		this.io = limiter(this.ioConcurrency)
+		if (memory) this.memory = new MemoryTier<T>(memory)
 
-		const db = new SQLite3(this.dbPath)
+		// Other processes may hold the write lock: wait for it instead of failing with SQLITE_BUSY
+		const db = new SQLite3(this.dbPath, { timeout: this.busyTimeout })
 		// Performance-oriented pragmas; adjust for your durability needs
 		db.exec("PRAGMA journal_mode = WAL")
 		db.exec("PRAGMA synchronous = NORMAL")
 		db.exec("PRAGMA temp_store = MEMORY")
 		// negative cache_size sets size in KB of page cache in memory
 		db.exec("PRAGMA cache_size = -20000")
-		for (const s of DDL.trim().split("\n")) {
-			db.prepare(s).run()
-		}
-		
-		// Add atime column if it doesn't exist (for existing databases)
+		// tag links are removed together with their cache rows
+		db.exec("PRAGMA foreign_keys = ON")
 		try {
-			db.exec("ALTER TABLE cache ADD COLUMN atime REAL NOT NULL DEFAULT 0")
-			db.exec("CREATE INDEX IF NOT EXISTS cache_atime ON cache (atime)")
-		} catch {
-			// Column already exists, ignore
+			migrate(db)
+		} catch (err) {
+			db.close()
+			throw err
 		}
-		
+
 		this.db = db
+		// Every cache on the default path shares it: a subdirectory per database keeps reconcile()
+		// from taking the files of another database for orphans
+		if (hasPersistentDatabaseLocation(this.dbPath)) {
+			this.store = (db.prepare("SELECT value FROM cache_meta WHERE name = 'store'").get() as { value: string }).value
+		} else {
+			this.store = openEphemeralStore()
+		}
+		this.storePath = pathJoin(this.path, this.store)
+		createDirectoryIfDoesNotExists(this.storePath)
 
 		// Prepare all statements once for performance
 		this.stmtInsert = db.prepare(
-			"INSERT INTO cache (key, value, filename, ttl, atime) VALUES (@key, @value, @filename, @ttl, @atime)" +
+			"INSERT INTO cache (key, value, filename, ttl, atime, size, codec, compression, checksum, key_id, sliding)" +
+			" VALUES (@key, @value, @filename, @ttl, @atime, @size, @codec, @compression, @checksum, @keyId, @sliding)" +
 			" ON CONFLICT(key)" +
-			" DO UPDATE SET value = @value, ttl = @ttl, filename = @filename, atime = @atime",
+			" DO UPDATE SET value = @value, ttl = @ttl, filename = @filename, atime = @atime, size = @size," +
+			" codec = @codec, compression = @compression, checksum = @checksum, key_id = @keyId, sliding = @sliding",
 		)
-		this.stmtGet = db.prepare("SELECT value, filename FROM cache WHERE key = ?")
+		this.stmtGet = db.prepare("SELECT value, filename, ttl, codec, compression, checksum, key_id as keyId, sliding FROM cache WHERE key = ?")
 		this.stmtUpdateAtime = db.prepare("UPDATE cache SET atime = ? WHERE key = ?")
 		this.stmtHas = db.prepare("SELECT ttl FROM cache WHERE key = ?")
 		this.stmtGetFilename = db.prepare("SELECT filename FROM cache WHERE key = ?")
-		this.stmtDelete = db.prepare("DELETE FROM cache WHERE key = ?")
+		// the file of the row actually deleted: another process may have rewritten it since it was read
+		this.stmtDelete = db.prepare("DELETE FROM cache WHERE key = ? RETURNING filename")
 		this.stmtCountEntries = db.prepare("SELECT COUNT(*) as count FROM cache WHERE ttl > ?")
 		this.stmtEvictLRU = db.prepare("SELECT key, filename FROM cache WHERE ttl > ? ORDER BY atime ASC LIMIT ?")
-		this.stmtPurgeSelect = db.prepare("SELECT key, filename FROM cache WHERE ttl < ?")
-		this.stmtPurgeDelete = db.prepare("DELETE FROM cache WHERE ttl < ?")
+		this.stmtTotalSize = db.prepare("SELECT COALESCE(SUM(size), 0) as size FROM cache")
+		this.stmtDbSize = db.prepare("SELECT COALESCE(SUM(size), 0) as size FROM cache WHERE filename IS NULL")
+		this.stmtDiskSize = db.prepare("SELECT COALESCE(SUM(size), 0) as size FROM cache WHERE filename IS NOT NULL")
+		this.stmtLRUBySize = db.prepare("SELECT key, filename, size FROM cache ORDER BY atime ASC")
+		this.stmtLRUBySizeDb = db.prepare("SELECT key, filename, size FROM cache WHERE filename IS NULL ORDER BY atime ASC")
+		this.stmtLRUBySizeDisk = db.prepare("SELECT key, filename, size FROM cache WHERE filename IS NOT NULL ORDER BY atime ASC")
+		this.stmtPurgeSelect = db.prepare("SELECT key, filename FROM cache WHERE ttl < ? ORDER BY ttl LIMIT ?")
+		this.stmtPurgeDelete = db.prepare("DELETE FROM cache WHERE key = ?")
+
+		this.stmtDeleteTags = db.prepare("DELETE FROM cache_tags WHERE key = ?")
+		this.stmtInsertTag = db.prepare("INSERT OR IGNORE INTO cache_tags (tag, key) VALUES (?, ?)")
+		this.stmtKeysForTag = db.prepare("SELECT key FROM cache_tags WHERE tag = ? ORDER BY key")
+		this.stmtTagsForKey = db.prepare("SELECT tag FROM cache_tags WHERE key = ? ORDER BY tag")
+		this.stmtClear = db.prepare("DELETE FROM cache")
+		// a key rewritten without sliding since it was read keeps its expiry
+		this.stmtSlide = db.prepare("UPDATE cache SET ttl = ? WHERE key = ? AND sliding IS NOT NULL")
+		this.stmtExpire = db.prepare("UPDATE cache SET ttl = ?, sliding = CASE WHEN sliding IS NULL THEN NULL ELSE ? END WHERE key = ?")
+		this.stmtPersist = db.prepare("UPDATE cache SET ttl = ?, sliding = NULL WHERE key = ?")
+		this.stmtCountFilename = db.prepare("SELECT COUNT(*) as count FROM cache WHERE filename = ?")
+		this.stmtFilenameOwner = db.prepare("SELECT key FROM cache WHERE filename = ? AND key != ? LIMIT 1")
+		this.stmtDeleteMissing = db.prepare("DELETE FROM cache WHERE key = ? AND filename = ?")
+		this.stmtDeleteCorrupt = db.prepare("DELETE FROM cache WHERE key = @key AND filename IS @filename AND checksum IS @checksum")
+		this.stmtQuarantined = db.prepare("INSERT OR REPLACE INTO cache_quarantine (filename, key, time) VALUES (?, ?, ?)")
+		this.stmtFileRows = db.prepare("SELECT key, filename FROM cache WHERE filename IS NOT NULL")
+		const usage = "COUNT(*) as entries," +
+			" COALESCE(SUM(CASE WHEN filename IS NULL THEN size END), 0) as dbBytes," +
+			" COALESCE(SUM(CASE WHEN filename IS NOT NULL THEN size END), 0) as diskBytes"
+		this.stmtUsage = db.prepare(`SELECT ${usage} FROM cache`)
+		this.stmtUsageByPrefix = db.prepare(
+			`SELECT CASE WHEN instr(key, @delimiter) > 0 THEN substr(key, 1, instr(key, @delimiter) - 1) ELSE '' END as prefix, ${usage}` +
+			" FROM cache GROUP BY prefix",
+		)
+		this.stmtDedupeStats = db.prepare(
+			"SELECT COUNT(*) as files, COALESCE(SUM(refs), 0) as refs, COALESCE(SUM(size), 0) as stored, COALESCE(SUM(size * refs), 0) as logical" +
+			" FROM (SELECT filename, COUNT(*) as refs, MAX(size) as size FROM cache WHERE filename IS NOT NULL GROUP BY filename)",
+		)
+
+		this.stmtAcquireLease = db.prepare(
+			"INSERT INTO cache_leases (name, owner, expires) VALUES (@name, @owner, @expires)" +
+			" ON CONFLICT(name) DO UPDATE SET owner = @owner, expires = @expires" +
+			" WHERE cache_leases.expires < @now OR cache_leases.owner = @owner",
+		)
+		this.stmtReleaseLease = db.prepare("DELETE FROM cache_leases WHERE name = ? AND owner = ?")
+
+		this.stmtVerifyBatch = db.prepare("SELECT key, value, filename, checksum FROM cache WHERE key > ? ORDER BY key LIMIT ?")
+		this.stmtReencryptBatch = db.prepare(
+			"SELECT key, value, filename, checksum, key_id as keyId FROM cache WHERE key > ? AND key_id IS NOT ? ORDER BY key LIMIT ?",
+		)
+		this.stmtGetChecksum = db.prepare("SELECT key, filename, checksum FROM cache WHERE key = ?")
+		this.stmtReencrypt = db.prepare(
+			"UPDATE cache SET value = @value, filename = @filename, size = @size, checksum = @checksum, key_id = @keyId WHERE key = @key",
+		)
 
-		// Build a synchronous transaction for bulk inserts
-		const tx = db.transaction((rows: Array<{ key: string; value: Buffer | null; filename: string | null; ttl: number; atime: number }>) => {
-			for (const row of rows) this.stmtInsert.run(row)
+		// Build a synchronous transaction for bulk inserts, returning the files replaced rows pointed to
+		const tx = db.transaction((writes: CacheWrite[]) => {
+			const replaced: string[] = []
+			for (const entry of writes) {
+				const { row, tags } = entry
+				const previous = this.stmtGetFilename.get(row.key) as CacheRowWithFilename | undefined
+				// Files are moved into place right before their row, so nothing can unlink or claim them in between.
+				// Content-addressed files that already exist hold the same bytes.
+				if (row.filename && !this.dedupe) row.filename = this._resolveFilename(row.key, row.filename)
+				if (row.filename && entry.tmp && !(this.dedupe && fs.existsSync(pathJoin(this.storePath, row.filename)))) {
+					moveFile(this.storePath, entry.tmp, row.filename)
+					entry.tmp = undefined
+				}
+				this.stmtInsert.run(row)
+				this.stmtDeleteTags.run(row.key)
+				for (const tag of tags ?? []) this.stmtInsertTag.run(tag, row.key)
+				if (previous?.filename && previous.filename !== row.filename) replaced.push(previous.filename)
+			}
+			return replaced
 		})
 		this.insertManyTx = tx
+
+		// Files are checked and unlinked under the write lock, and moved into place under it too (in insertManyTx),
+		// so no other process can start referencing a file between the check and the unlink
+		this.delFileTx = db.transaction((filename: string) => {
+			const refs = this.stmtCountFilename.get(filename) as { count: number }
+			if (refs.count > 0) return
+			try {
+				fs.unlinkSync(pathJoin(this.storePath, filename))
+			} catch {
+				// File might already be deleted
+			}
+		})
+
+		// Only updates rows that still hold the bytes that were re-encrypted, so a concurrent write wins
+		this.reencryptTx = db.transaction((update: CacheReencrypt) => {
+			const row = this.stmtGetChecksum.get(update.key) as CacheRowWithFilename | undefined
+			if (!row || row.checksum !== update.previous) return undefined
+			if (update.filename && !this.dedupe) update.filename = this._resolveFilename(update.key, update.filename)
+			if (update.filename && update.tmp && !(this.dedupe && fs.existsSync(pathJoin(this.storePath, update.filename)))) {
+				moveFile(this.storePath, update.tmp, update.filename)
+				update.tmp = undefined
+			}
+			const { key, value, filename, size, checksum, keyId } = update
+			this.stmtReencrypt.run({ key, value, filename, size, checksum, keyId })
+			return row
+		})
+
+		if (reconcileOnStart) this._reconcile(DEFAULT_RECONCILE_MIN_AGE)
 	}
 
 	/**
 	 * Stores a value in the cache.
-	 * Values larger than maxInMemorySize are automatically stored on disk.
-	 * When maxEntries is configured and exceeded, LRU eviction automatically removes least recently used entries.
+	 * The value is encoded with the configured serializer and optionally compressed, and the
+	 * resulting bytes are stored on disk when they are larger than maxInMemorySize.
+	 * When maxEntries or a byte budget (maxSize, maxDbSize, maxDiskSize) is configured and exceeded,
+	 * LRU eviction automatically removes least recently used entries.
 	 *
 	 * @param key - Unique identifier for the cached value
-	 * @param value - The data to cache as a Buffer
-	 * @param ttl - Optional time-to-live in seconds (overrides default)
+	 * @param value - The data to cache (a Buffer unless a serializer is configured)
+	 * @param options - Optional time-to-live in seconds (overrides default), or per-entry options
 	 * @throws Error if the database operation fails
 	 *
 	 * @example
 	 * ```typescript
 	 * await cache.set('user:123', Buffer.from(JSON.stringify(userData)))
 	 * await cache.set('file:image.png', imageBuffer, 86400) // 24 hour TTL
+	 * await cache.set('fragment:profile', html, { tags: ['user:123'] })
+	 * await cache.set('session:abc', session, { ttl: 1800, sliding: true }) // 30 minutes after the last read
+	 * await cache.set('promo:summer', banner, { expiresAt: new Date('2026-09-01') })
 	 * ```
 	 */
-	async set(key: string, value: Buffer, ttl?: number) {
-		if (!ttl) ttl = this.ttl
-
-		const insert = this.db.prepare(
-			"INSERT INTO cache (key, value, filename, ttl, atime) VALUES (@key, @value, @filename, @ttl, @atime)" +
-			" ON CONFLICT(key)" +
-			" DO UPDATE SET value = @value, ttl = @ttl, filename = @filename, atime = @atime",
-		)
-		let filename: string | null = null
-		// larger than maxInMemorySize
-		if (value.length > this.maxInMemorySize) {
-			filename = await xxhname(key)
-			write(this.path, filename, value)
-		}
-
+	async set(key: string, value: T, options?: number | SetOptions) {
+		this._assertOpen()
+		const { tags } = typeof options === "number" ? {} : options ?? {}
 		const now = new Date().getTime() / 1000
-		insert.run({
-			key,
-			value: filename ? null : value,
-			filename,
-			ttl: now + ttl,
-			atime: now,
-		})
+		await this._commit([await this._encode(key, value, this._expiry(options, now), now, tags)])
 
-		// LRU eviction: if maxEntries is set and we're over the limit, evict the least recently used
-		if (this.maxEntries && this.maxEntries > 0) {
+		// LRU eviction: if an entry or byte limit is set and we're over it, evict the least recently used
+		if (this._lruEnabled()) {
 			await this._evictLRU()
 		}
 	}
 
 	/**
 	 * Efficiently set many entries in a single transaction.
-	 * Precomputes filenames for large values to avoid async inside transaction.
+	 * Encodes all values first, to avoid async inside the transaction.
 	 */
-	async setMany(entries: Array<{ key: string; value: Buffer; ttl?: number }>) {
-		// Precompute filenames for large values, and shape rows
+	async setMany(entries: Array<{ key: string; value: T } & SetOptions>) {
+		this._assertOpen()
+		// Encode values and shape rows
 		const now = new Date().getTime() / 1000
-		const rows: Array<{ key: string; value: Buffer | null; filename: string | null; ttl: number; atime: number }> = []
-		for (const { key, value, ttl } of entries) {
-			let filename: string | null = null
-			if (value.length > this.maxInMemorySize) {
-				filename = await xxhname(key)
-				write(this.path, filename, value)
-			}
-			rows.push({
-				key,
-				value: filename ? null : value,
-				filename,
-				ttl: now + (ttl ?? this.ttl),
-				atime: now,
-			})
+		const writes: CacheWrite<T>[] = []
+		for (const { key, value, ...options } of entries) {
+			writes.push(await this._encode(key, value, this._expiry(options, now), now, options.tags))
 		}
 
 		// Execute single transaction
-		this.insertManyTx(rows)
+		await this._commit(writes)
 
 		// Optional single LRU pass
-		if (this.maxEntries && this.maxEntries > 0) {
+		if (this._lruEnabled()) {
 			await this._evictLRU()
 		}
 	}
 
 	/**
-	 * Retrieves a value from the cache.
-	 * Automatically loads from disk if the value is file-backed.
+	 * Stores a stream as a file-backed entry without buffering it in memory.
+	 * The stream is written to a temporary file that is renamed into place, and the row is only
+	 * committed once the stream has finished. If the stream fails, the temporary file is removed,
+	 * the previous entry (if any) is left untouched and the error is rethrown.
+	 * The bytes are stored as-is: no serializer or compression is applied, only encryption.
 	 *
-	 * @param key - The unique identifier for the cached value
-	 * @param defaultValue - Optional value to return if key is not found
-	 * @returns The cached value as a Buffer, or defaultValue/undefined if not found
+	 * @param key - Unique identifier for the cached value
+	 * @param stream - The data to cache
+	 * @param options - Optional time-to-live in seconds (overrides default), or per-entry options
 	 *
 	 * @example
 	 * ```typescript
-	 * const value = await cache.get('user:123')
-	 * const valueWithDefault = await cache.get('user:456', Buffer.from('default'))
+	 * await cache.setStream('video:1', fs.createReadStream('video.mp4'), 86400)
 	 * ```
 	 */
-	async get(key: string, defaultValue?: Buffer): Promise<Buffer | undefined> {
-		const rv = this.stmtGet.get(key) as CacheRowWithValue | undefined
-		if (!rv) return defaultValue
-		
-		// Update access time for LRU tracking (only if maxEntries is configured)
-		if (this.maxEntries && this.maxEntries > 0) {
+	async setStream(key: string, stream: Readable, options?: number | SetOptions) {
+		this._assertOpen()
+		const { tags } = typeof options === "number" ? {} : options ?? {}
+
+		const current = await this.keyring?.current()
+		// errors from the source stream are forwarded to the encrypted stream
+		const stored = current ? pipeline(stream, encryptStream(current.key, key), () => {}) : stream
+		const { tmp, size, checksum, contentName } = await writeStream(this.storePath, stored)
+
+		try {
 			const now = new Date().getTime() / 1000
-			this.stmtUpdateAtime.run(now, key)
+			await this._commit([{
+				row: {
+					key,
+					value: null,
+					filename: this.dedupe ? contentName : await xxhname(key, this.hash),
+					...this._expiry(options, now),
+					atime: now,
+					size,
+					codec: bufferSerializer.name,
+					compression: null,
+					checksum,
+					keyId: current?.id ?? null,
+				},
+				tags,
+				tmp,
+			}])
+		} finally {
+			await fs.rm(tmp, { force: true })
+		}
+
+		if (this._lruEnabled()) {
+			await this._evictLRU()
 		}
-		
-		if (rv && rv.filename) rv.value = read(this.path, rv.filename)
-		return rv.value ?? defaultValue
 	}
 
 	/**
-	 * Checks if a key exists in the cache and whether it's fresh or stale.
-	 *
-	 * @param key - The unique identifier to check
-	 * @returns Cache status: "hit" (exists and fresh), "stale" (exists but expired), or "miss" (doesn't exist)
-	 *
-	 * @example
-	 * ```typescript
-	 * const status = await cache.has('user:123')
-	 * if (status === 'hit') {
-	 *   const value = await cache.get('user:123')
-	 * }
-	 * ```
+	 * Resolves the TTL, expiresAt and sliding options of a write into an expiry.
 	 */
-	async has(key: string): Promise<CacheStatus> {
-		const now = new Date().getTime() / 1000
-		const rv = this.stmtHas.get(key) as CacheRowWithTtl | undefined
-		return !rv ? "miss" : rv.ttl > now ? "hit" : "stale"
+	private _expiry(options: number | SetOptions | undefined, now: number): Expiry {
+		const { ttl, expiresAt, sliding } = typeof options === "number" ? { ttl: options } : options ?? {}
+		if (ttl && expiresAt) throw new Error("Pass either ttl or expiresAt, not both")
+		const seconds = expiresAt ? expiresAt.getTime() / 1000 - now : ttl || this.ttl
+		return { ttl: now + seconds, sliding: sliding ? seconds : null }
 	}
 
 	/**
-	 * Deletes a value from the cache, including any associated disk file.
+	 * Picks the file name for one write of a key: its hashed name with a random suffix, so a rewrite
+	 * never replaces the file a reader of the previous row, in this process or another, is about to
+	 * read and decode with that row's checksum, compression and key. The previous file is unlinked
+	 * once no row points to it. Should another key own the name (a hash collision), the first free
+	 * fallback name is used.
+	 */
+	private _resolveFilename(key: string, filename: string): string {
+		const unique = uniqueName(filename)
+		for (let n = 0; ; n++) {
+			const candidate = collisionName(unique, n)
+			if (!this.stmtFilenameOwner.get(candidate, key)) return candidate
+		}
+	}
+
+	/**
+	 * Writes rows (and their files) in one transaction, then removes the files that replaced
+	 * rows no longer point to.
+	 * File bytes are written to temporary files first, asynchronously and at most ioConcurrency at
+	 * a time; the transaction itself only renames them.
+	 */
+	private async _commit(writes: CacheWrite<T>[]) {
+		let replaced: string[]
+		try {
+			const written = await Promise.allSettled(writes.map(async (entry) => {
+				if (entry.row.filename && entry.data) {
+					entry.tmp = await this.io(() => writeTemp(this.storePath, entry.row.filename!, entry.data!))
+				}
+			}))
+			const failed = written.find((result) => result.status === "rejected")
+			if (failed) throw failed.reason
+			// IMMEDIATE takes the write lock up front, so concurrent writers wait for it instead of failing
+			replaced = this.insertManyTx.immediate(writes)
+			// Updated in the same tick as the transaction, so the memory tier follows the commit order
+			const now = new Date().getTime() / 1000
+			for (const { row, value, memorySize } of writes) {
+				if (value === undefined) this.memory?.delete(row.key)
+				else this.memory?.set(row.key, value, row.ttl, memorySize ?? row.size, now, row.sliding)
+			}
+		} finally {
+			// Left over when the transaction failed, or when a content-addressed file already existed
+			await Promise.all(writes.map((entry) => entry.tmp && fs.rm(entry.tmp, { force: true })))
+		}
+		for (const filename of replaced) this._delFile(filename)
+		for (const { row } of writes) {
+			this.metrics.count("sets", row.key)
+			this._emit("set", { key: row.key, size: row.size, storage: row.filename ? "disk" : "db" })
+		}
+	}
+
+	/**
+	 * Serializes, compresses and encrypts a value, and shapes the row to upsert. Values over
+	 * maxInMemorySize get a file name, and their bytes are written when the row is committed.
+	 */
+	private async _encode(key: string, value: T, expiry: Expiry, now: number, tags?: string[]): Promise<CacheWrite<T>> {
+		const data = this.serializer.serialize(value)
+		const write = await this._encodeBytes(key, data, this.serializer.name, expiry, now, tags)
+		write.value = value
+		write.memorySize = data.length
+		return write
+	}
+
+	/**
+	 * Compresses and encrypts bytes serialized by codec, and shapes the row to upsert, like _encode().
+	 */
+	private async _encodeBytes(key: string, data: Buffer, codec: string, expiry: Expiry, now: number, tags?: string[]): Promise<CacheWrite<T>> {
+		let compression: CompressionAlgorithm | null = null
+		if (this.compression && data.length >= this.compressionThreshold) {
+			const compressed = await compress(this.compression, data)
+			// only keep the compressed bytes when they actually save space
+			if (compressed.length < data.length) {
+				data = compressed
+				compression = this.compression
+			}
+		}
+
+		let keyId: string | null = null
+		if (this.keyring) {
+			const current = await this.keyring.current()
+			data = encrypt(current.key, data, key)
+			keyId = current.id
+		}
+
+		let filename: string | null = null
+		// larger than maxInMemorySize (after compression and encryption)
+		if (data.length > this.maxInMemorySize) {
+			filename = this.dedupe ? await xxhcontent(data) : await xxhname(key, this.hash)
+		}
+
+		const row = {
+			key,
+			value: filename ? null : data,
+			filename,
+			...expiry,
+			atime: now,
+			size: data.length,
+			codec,
+			compression,
+			checksum: await xxhchecksum(data),
+			keyId,
+		}
+		return { row, tags, data: filename ? data : undefined }
+	}
+
+	/**
+	 * Decrypts and decompresses stored bytes, back to what the serializer produced.
+	 */
+	private async _unseal(key: string, data: Buffer, row: CacheRow): Promise<Buffer> {
+		if (row.keyId) data = decrypt(await this._decryptionKey(row.keyId), data, key)
+		if (row.compression) data = await decompress(row.compression, data)
+		return data
+	}
+
+	/**
+	 * Retrieves a value from the cache.
+	 * Automatically loads from disk if the value is file-backed, decrypts and decompresses it,
+	 * and decodes it with the codec that wrote it. With encryption, an entry written under an older
+	 * key is re-encrypted with the current one.
+	 * With verifyOnRead, a value that doesn't match its checksum is removed (or quarantined) and
+	 * treated as a miss. An entry whose file is gone is dropped and treated as a miss too.
 	 *
-	 * @param key - The unique identifier to delete
+	 * @param key - The unique identifier for the cached value
+	 * @param defaultValue - Optional value to return if key is not found
+	 * @returns The cached value, or defaultValue/undefined if not found
+	 * @throws Error if the entry was written by a codec or under an encryption key this cache doesn't know
 	 *
 	 * @example
 	 * ```typescript
-	 * await cache.del('user:123')
+	 * const value = await cache.get('user:123')
+	 * const valueWithDefault = await cache.get('user:456', Buffer.from('default'))
 	 * ```
 	 */
-	async del(key: string) {
-		const rv = this.stmtGetFilename.get(key) as CacheRowWithFilename | undefined
-		this.stmtDelete.run(key)
-		this._delFile(rv?.filename)
+	async get(key: string, defaultValue?: T): Promise<T | undefined> {
+		this._assertOpen()
+		const now = new Date().getTime() / 1000
+		const cached = this.memory?.get(key, now)
+		if (cached) {
+			// Refresh the LRU atime in SQLite at most once a second for keys served from memory
+			if (now - cached.touched >= 1) {
+				this._touch(key)
+				cached.touched = now
+			}
+			// The memory tier keeps its own expiry, and reads the slid one from SQLite once it's past
+			this._slide(key, cached, now)
+			this._countRead(key, cached)
+			return cached.value
+		}
+
+		const version = this.memory?.version
+		const rv = this.stmtGet.get(key) as CacheRowWithValue | undefined
+		if (!rv) {
+			this._countRead(key)
+			return defaultValue
+		}
+
+		this._touch(key)
+		rv.ttl = this._slide(key, rv, now)
+
+		const read = await this._readValue(key, rv)
+		this._countRead(key, read && rv)
+		if (!read) return defaultValue
+		const { value, size } = read
+		if (this.keyring && this.reencryptOnRead && rv.keyId !== (await this.keyring.current()).id) {
+			try {
+				await this._reencrypt(key, rv)
+			} catch {
+				// Re-encryption failed, the entry stays readable under its key
+			}
+		}
+		// Skip caching what was read if the key may have been written in the meantime
+		if (this.memory?.version === version) this.memory?.set(key, value, rv.ttl, size, now, rv.sliding)
+		return value
 	}
 
 	/**
-	 * Evicts the least recently used entries when cache exceeds maxEntries.
-	 * Private method called automatically by set() when maxEntries is configured.
+	 * Counts a read as a hit or a stale read according to the row's TTL, or as a miss without a row,
+	 * and emits the matching event.
 	 */
-	async _evictLRU() {
-		if (!this.maxEntries || this.maxEntries <= 0) return
-
-		// Count current entries (non-expired)
-		const now = new Date().getTime() / 1000
-		const count = this.stmtCountEntries.get(now) as { count: number }
-		
-		// If we're under the limit, no eviction needed
-		if (count.count <= this.maxEntries) return
+	private _countRead(key: string, rv?: { ttl: number }) {
+		if (!rv) {
+			this.metrics.count("misses", key)
+			this._emit("miss", { key })
+			return
+		}
+		const stale = rv.ttl <= new Date().getTime() / 1000
+		this.metrics.count(stale ? "stale" : "hits", key)
+		this._emit("hit", { key, stale })
+	}
 
-		// Calculate how many to evict
-		const toEvict = count.count - this.maxEntries
+	/**
+	 * Emits an event to each listener in turn. A listener that throws or rejects never breaks the
+	 * cache operation, nor keeps the other listeners from running.
+	 */
+	private _emit<K extends keyof CacheEvents>(event: K, ...args: CacheEvents[K]) {
+		if (this.listenerCount(event) === 0) return
+		for (const listener of this.rawListeners(event) as Array<(...args: CacheEvents[K]) => unknown>) {
+			try {
+				const rv = listener.apply(this, args)
+				if (rv instanceof Promise) {
+					rv.catch(() => {
+						// Listener errors are ignored
+					})
+				}
+			} catch {
+				// Listener errors are ignored
+			}
+		}
+	}
 
-		// Get the least recently used entries (oldest atime)
-		const rows = this.stmtEvictLRU.all(now, toEvict) as CacheRowWithFilename[]
+	/**
+	 * Reads, verifies, decrypts, decompresses and deserializes the value of a row with the key,
+	 * algorithm and codec recorded in it, and returns it with its serialized length. Returns
+	 * undefined when the file is gone or the value is corrupt, after dropping the entry.
+	 */
+	private async _readValue(key: string, rv: CacheRowWithValue): Promise<{ value: T; size: number } | undefined> {
+		const data = await this._readStored(key, rv)
+		if (!data) return undefined
+		const plain = await this._unseal(key, data, rv)
+		return { value: getSerializer(rv.codec, this.serializer).deserialize(plain) as T, size: plain.length }
+	}
 
-		// Delete them from cache and their files
-		for (const row of rows) {
-			this.stmtDelete.run(row.key)
-			this._delFile(row.filename)
+	/**
+	 * Reads and verifies the stored bytes of a row into rv.value. Returns undefined when the file
+	 * is gone or the value is corrupt, after dropping the entry.
+	 */
+	private async _readStored(key: string, rv: CacheRowWithValue): Promise<Buffer | undefined> {
+		if (rv.filename) {
+			try {
+				rv.value = await this.io(() => read(this.storePath, rv.filename!))
+			} catch (err) {
+				if (!isNotFound(err)) throw err
+				this._dropMissing(key, rv.filename)
+				return undefined
+			}
 		}
+		if (!rv.value) return undefined
+		if (this.verifyOnRead && !(await this._verify(key, rv.value, rv))) return undefined
+		return rv.value
 	}
 
-	_delFile(filename?: string | null) {
-		if (!filename) return
-		const f = pathJoin(this.path, filename)
-		fs.unlink(f).catch()
+	/**
+	 * Finds the key that decrypts an entry written under keyId.
+	 */
+	private async _decryptionKey(keyId: string): Promise<Buffer> {
+		if (!this.keyring) throw new Error(`Entry is encrypted with key "${keyId}", but no encryption keys are configured`)
+		return (await this.keyring.find(keyId)).key
 	}
 
 	/**
-	 * Permanently removes all expired entries from the cache.
-	 * Entries are purged after TTL + TBD (grace period) has passed.
-	 * Returns the number of entries purged.
+	 * Streams the stored bytes of a value, decrypted and decompressed but not deserialized.
+	 * File-backed values are streamed straight from disk.
 	 *
-	 * @returns The number of cache entries that were purged
+	 * @param key - The unique identifier for the cached value
+	 * @returns A readable stream, or undefined if the key is not found
 	 *
 	 * @example
 	 * ```typescript
-	 * const purged = await cache.purge()
-	 * console.log(`Purged ${purged} expired entries`)
+	 * const stream = await cache.getStream('video:1')
+	 * if (stream) stream.pipe(res)
 	 * ```
 	 */
-	async purge() {
-		// ttl + tbd < now => ttl < now - tbd
-		const now = new Date().getTime() / 1000 - this.tbd
-		const rows = this.stmtPurgeSelect.all(now) as CacheRowWithFilename[]
-		this.stmtPurgeDelete.run(now)
-		for (const row of rows) this._delFile(row.filename)
-		await purgeEmptyPath(this.path)
-		return rows.length
+	async getStream(key: string): Promise<Readable | undefined> {
+		this._assertOpen()
+		return this.getRange(key)
+	}
+
+	/**
+	 * Streams part of the stored bytes of a value, like an HTTP `Range: bytes=start-end` request.
+	 * Both `start` and `end` are inclusive byte offsets. Uncompressed, unencrypted file-backed values
+	 * are read from disk at the requested offsets, other values are decoded and sliced.
+	 *
+	 * @param key - The unique identifier for the cached value
+	 * @param start - First byte to read. Default: 0
+	 * @param end - Last byte to read (inclusive). Default: the end of the value
+	 * @returns A readable stream, or undefined if the key is not found
+	 *
+	 * @example
+	 * ```typescript
+	 * // bytes=1000-1999
+	 * const part = await cache.getRange('video:1', 1000, 1999)
+	 * ```
+	 */
+	async getRange(key: string, start?: number, end?: number): Promise<Readable | undefined> {
+		this._assertOpen()
+		const rv = this.stmtGet.get(key) as CacheRowWithValue | undefined
+		if (!rv) {
+			this._countRead(key)
+			return undefined
+		}
+
+		this._touch(key)
+		this._slide(key, rv, new Date().getTime() / 1000)
+
+		if (rv.filename && !(await fs.pathExists(pathJoin(this.storePath, rv.filename)))) {
+			this._dropMissing(key, rv.filename)
+			this._countRead(key)
+			return undefined
+		}
+		if (rv.filename && !rv.compression && !rv.keyId) {
+			this._countRead(key, rv)
+			return readStream(this.storePath, rv.filename, start, end)
+		}
+
+		let data: Buffer
+		if (rv.filename) {
+			this._countRead(key, rv)
+			let stream = rv.keyId
+				? await decryptFile(await this._decryptionKey(rv.keyId), pathJoin(this.storePath, rv.filename), key)
+				: readStream(this.storePath, rv.filename)
+			// errors from the file stream are forwarded to the decompressed stream
+			if (rv.compression) stream = pipeline(stream, decompressStream(rv.compression), () => {})
+			if (start === undefined && end === undefined) return stream
+			const chunks: Buffer[] = []
+			for await (const chunk of stream) chunks.push(chunk)
+			data = Buffer.concat(chunks)
+		} else {
+			if (rv.value && this.verifyOnRead && !(await this._verify(key, rv.value, rv))) {
+				this._countRead(key)
+				return undefined
+			}
+			this._countRead(key, rv)
+			data = rv.value ? await this._unseal(key, rv.value, rv) : Buffer.alloc(0)
+		}
+		return Readable.from([data.subarray(start ?? 0, end === undefined ? undefined : end + 1)])
+	}
+
+	/**
+	 * Checks stored bytes against the checksum recorded in their row. Corrupt entries are
+	 * quarantined and counted. Entries without a checksum pass.
+	 */
+	private async _verify(key: string, data: Buffer, row: CacheRow): Promise<boolean> {
+		if (!row.checksum || (await xxhchecksum(data)) === row.checksum) return true
+		await this._quarantine(key, row, data)
+		return false
+	}
+
+	/**
+	 * Removes a corrupt entry, first copying its bytes to quarantinePath when one is configured.
+	 * An entry rewritten since its row was read is left alone. Quarantined files are named like the
+	 * files of the cache, so their names don't reveal keys, which are recorded in cache_quarantine.
+	 */
+	private async _quarantine(key: string, row: CacheRow, data?: Buffer) {
+		const filename = row.filename ?? null
+		this.corrupted++
+		this._emit("corrupt", { key, reason: data ? "checksum" : "missing" })
+		if (this.stmtDeleteCorrupt.run({ key, filename, checksum: row.checksum ?? null }).changes) this.memory?.delete(key)
+		this._delFile(filename)
+		if (this.quarantinePath && data) {
+			const name = filename ?? pathJoin("db", uniqueName(await xxhname(key, this.hash)))
+			await write(this.quarantinePath, name, data)
+			this.stmtQuarantined.run(name, key, new Date().getTime() / 1000)
+		}
+	}
+
+	/**
+	 * Drops an entry whose file is gone, unless it was rewritten to another file in the meantime.
+	 */
+	private _dropMissing(key: string, filename: string) {
+		if (this.stmtDeleteMissing.run(key, filename).changes) this.memory?.delete(key)
+	}
+
+	/**
+	 * Brings the database and the files on disk back in line after a crash or manual cleanup:
+	 * drops entries whose file is missing, and removes files no entry points to as well as
+	 * temporary files left behind by interrupted writes.
+	 * Files modified in the last `minAge` seconds are left alone, as they may belong to a write
+	 * that is still in progress. Only storePath is scanned, along with the stores of in-memory
+	 * databases that were closed or whose process exited, which are removed whatever their age.
+	 *
+	 * @param options - `minAge` in seconds. Default: 60
+	 * @returns What was fixed
+	 *
+	 * @example
+	 * ```typescript
+	 * const { orphans, missing } = await cache.reconcile()
+	 * ```
+	 */
+	async reconcile({ minAge = DEFAULT_RECONCILE_MIN_AGE }: { minAge?: number } = {}): Promise<ReconcileReport> {
+		this._assertOpen()
+		const report = this._reconcile(minAge)
+		await purgeEmptyPath(this.storePath)
+		return report
+	}
+
+	/**
+	 * Synchronous core of `reconcile()`, so no write of this process can interleave with it.
+	 */
+	private _reconcile(minAge: number): ReconcileReport {
+		const report: ReconcileReport = { orphans: [], temporary: [], missing: [] }
+
+		const referenced = new Set<string>()
+		for (const row of this.stmtFileRows.all() as CacheRowWithFilename[]) {
+			if (fs.existsSync(pathJoin(this.storePath, row.filename!))) {
+				referenced.add(row.filename!)
+			} else {
+				this._dropMissing(row.key, row.filename!)
+				report.missing.push(row.key)
+			}
+		}
+
+		const cutoff = Date.now() - minAge * 1000
+		// a database from before stores keeps its files next to them
+		const stores = fs.existsSync(this.path) ? fs.readdirSync(this.path).filter(isStore) : []
+		const skip = [...(this.store ? [] : stores.map((store) => pathJoin(this.path, store))), ...(this.quarantinePath ? [this.quarantinePath] : [])]
+		for (const name of listFiles(this.storePath, skip)) {
+			const found = name.endsWith(".tmp") ? report.temporary : name.endsWith(".v") && !referenced.has(name) ? report.orphans : undefined
+			if (!found) continue
+			const file = pathJoin(this.storePath, name)
+			try {
+				if (fs.statSync(file).mtimeMs > cutoff) continue
+				fs.unlinkSync(file)
+				found.push(pathJoin(this.store, name))
+			} catch {
+				// File might already be deleted
+			}
+		}
+
+		// nothing writes to the store of a closed in-memory database anymore, whatever the age of its files
+		for (const store of stores) {
+			if (store === this.store || !isDeadStore(store)) continue
+			const dir = pathJoin(this.path, store)
+			for (const name of listFiles(dir)) {
+				const found = name.endsWith(".tmp") ? report.temporary : report.orphans
+				try {
+					fs.unlinkSync(pathJoin(dir, name))
+					found.push(pathJoin(store, name))
+				} catch {
+					// File might already be deleted
+				}
+			}
+			fs.rmSync(dir, { recursive: true, force: true })
+		}
+		return report
+	}
+
+	/**
+	 * Scans the whole cache and checks every value against its checksum, and every file-backed
+	 * entry for a missing file.
+	 *
+	 * @param options - Pass `{ repair: true }` to remove (or quarantine) the corrupt entries
+	 * @returns How many entries were checked, and which ones are corrupt
+	 *
+	 * @example
+	 * ```typescript
+	 * const { corrupt } = await cache.verify({ repair: true })
+	 * ```
+	 */
+	async verify({ repair = false }: { repair?: boolean } = {}): Promise<VerifyReport> {
+		this._assertOpen()
+		const report: VerifyReport = { checked: 0, unchecked: 0, corrupt: [] }
+		let last = ""
+		for (;;) {
+			const rows = this.stmtVerifyBatch.all(last, 100) as CacheRowWithValue[]
+			if (rows.length === 0) break
+			for (const row of rows) {
+				const key = row.key!
+				last = key
+				let data = row.value
+				if (row.filename) {
+					try {
+						data = await this.io(() => read(this.storePath, row.filename!))
+					} catch {
+						report.corrupt.push({ key, reason: "missing" })
+						if (repair) await this._quarantine(key, row)
+						continue
+					}
+				}
+				if (!row.checksum || !data) {
+					report.unchecked++
+					continue
+				}
+				report.checked++
+				if ((await xxhchecksum(data)) !== row.checksum) {
+					report.corrupt.push({ key, reason: "checksum" })
+					if (repair) await this._quarantine(key, row, data)
+				}
+			}
+		}
+		return report
+	}
+
+	/**
+	 * Re-encrypts every entry written under another key than the current one, or before encryption
+	 * was enabled. The keyring is reloaded from the key provider first, so call it after rotating keys.
+	 * Values, TTLs and tags are left as they are.
+	 *
+	 * @returns The number of entries re-encrypted
+	 * @throws Error if the cache has no encryption option
+	 *
+	 * @example
+	 * ```typescript
+	 * // after putting the new key first in the keyring
+	 * const count = await cache.reencrypt()
+	 * ```
+	 */
+	async reencrypt(): Promise<number> {
+		this._assertOpen()
+		if (!this.keyring) throw new Error("reencrypt() requires the encryption option")
+		const { current } = await this.keyring.reload()
+		let count = 0
+		let last = ""
+		for (;;) {
+			const rows = this.stmtReencryptBatch.all(last, current.id, 100) as CacheRowWithValue[]
+			if (rows.length === 0) break
+			for (const row of rows) {
+				const key = row.key!
+				last = key
+				if (row.filename) {
+					try {
+						row.value = await this.io(() => read(this.storePath, row.filename!))
+					} catch (err) {
+						if (!isNotFound(err)) throw err
+						this._dropMissing(key, row.filename)
+						continue
+					}
+				}
+				if (await this._reencrypt(key, row)) count++
+			}
+		}
+		return count
+	}
+
+	/**
+	 * Re-encrypts the stored bytes of an entry with the current key, without decoding them.
+	 * Returns false when the entry was rewritten or deleted since it was read, leaving it alone.
+	 */
+	private async _reencrypt(key: string, rv: CacheRowWithValue): Promise<boolean> {
+		if (!rv.value) return false
+		const current = await this.keyring!.current()
+		const plain = rv.keyId ? decrypt(await this._decryptionKey(rv.keyId), rv.value, key) : rv.value
+		const data = encrypt(current.key, plain, key)
+		const update: CacheReencrypt = {
+			key,
+			value: rv.filename ? null : data,
+			filename: null,
+			size: data.length,
+			checksum: await xxhchecksum(data),
+			keyId: current.id,
+			previous: rv.checksum,
+		}
+		let replaced: CacheRowWithFilename | undefined
+		try {
+			if (rv.filename) {
+				const filename = this.dedupe ? await xxhcontent(data) : await xxhname(key, this.hash)
+				update.filename = filename
+				update.tmp = await this.io(() => writeTemp(this.storePath, filename, data))
+			}
+			replaced = this.reencryptTx.immediate(update)
+		} finally {
+			if (update.tmp) await fs.rm(update.tmp, { force: true })
+		}
+		if (replaced?.filename && replaced.filename !== update.filename) this._delFile(replaced.filename)
+		return replaced !== undefined
+	}
+
+	/**
+	 * Pushes the expiry of a fresh entry with sliding expiration forward by its window.
+	 *
+	 * @returns The entry's expiry time, slid or not
+	 */
+	private _slide(key: string, rv: { ttl: number; sliding: number | null }, now: number): number {
+		if (rv.sliding === null || rv.ttl <= now) return rv.ttl
+		this.stmtSlide.run(now + rv.sliding, key)
+		return now + rv.sliding
+	}
+
+	/**
+	 * Updates the access time of a key for LRU tracking (only if an entry or byte limit is configured).
+	 */
+	private _touch(key: string) {
+		if (this._lruEnabled()) {
+			const now = new Date().getTime() / 1000
+			this.stmtUpdateAtime.run(now, key)
+		}
+	}
+
+	/**
+	 * Returns the cached value for a key, or computes and stores it with the loader.
+	 * Stale and missing entries are reloaded. Concurrent callers for the same key share a single
+	 * loader call; if it fails, every caller receives the error and nothing is cached.
+	 *
+	 * @param key - The unique identifier for the cached value
+	 * @param loader - Computes the value when the key is not a fresh hit
+	 * @param options - Optional time-to-live in seconds, or per-entry options, used when storing the loaded value
+	 * @returns The cached or freshly loaded value
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = await cache.getOrSet('user:123', () => fetchUser(123), { ttl: 60 })
+	 * ```
+	 */
+	async getOrSet(key: string, loader: Loader<T>, options?: number | SetOptions): Promise<T> {
+		this._assertOpen()
+		if ((await this.has(key)) === "hit") {
+			const value = await this.get(key)
+			if (value !== undefined) return value
+		} else {
+			this._countRead(key)
+		}
+		return this._load(key, loader, options)
+	}
+
+	/**
+	 * Reads a value with stale-while-revalidate semantics.
+	 * Misses are loaded and stored before returning. Stale entries (within the tbd grace period) are
+	 * returned right away and refreshed in the background, and so are fresh entries that expire
+	 * within `refreshAhead` seconds. Background refreshes share getOrSet()'s single-flight loading,
+	 * and a failed refresh leaves the current entry in place.
+	 *
+	 * @param key - The unique identifier for the cached value
+	 * @param options - Loader, refresh-ahead threshold and per-entry options for stored values
+	 * @returns The value and whether it was a "hit", a "stale" hit or a "miss"
+	 * @throws Error if no loader is registered or passed, or if loading a miss fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const cache = new Cache({ loader: (key) => render(key), refreshAhead: 60 })
+	 * const { value, status } = await cache.fetch('page:/home')
+	 * res.setHeader('X-Cache', status)
+	 * ```
+	 */
+	async fetch(key: string, options: FetchOptions<T> = {}): Promise<FetchResult<T>> {
+		this._assertOpen()
+		const loader = options.loader ?? this.loader
+		if (!loader) throw new Error("fetch() needs a loader, pass one in the options or in CacheOptions")
+
+		const now = new Date().getTime() / 1000
+		const rv = this.stmtHas.get(key) as CacheRowWithTtl | undefined
+		if (rv) {
+			const value = await this.get(key)
+			if (value !== undefined) {
+				const status = rv.ttl > now ? "hit" : "stale"
+				const refreshAhead = options.refreshAhead ?? this.refreshAhead
+				if (status === "stale" || (refreshAhead && rv.ttl - now <= refreshAhead)) {
+					this._load(key, loader, options).catch(() => {
+						// Background refresh failed, keep serving the current entry
+					})
+				}
+				return { value, status }
+			}
+		} else {
+			this._countRead(key)
+		}
+		return { value: await this._load(key, loader, options), status: "miss" }
+	}
+
+	/**
+	 * Runs the loader for a key at most once at a time, and stores its result through set().
+	 */
+	_load(key: string, loader: Loader<T>, options?: number | SetOptions): Promise<T> {
+		let pending = this.inflight.get(key)
+		if (!pending) {
+			pending = (async () => {
+				const value = await loader(key)
+				await this.set(key, value, options)
+				return value
+			})().finally(() => this.inflight.delete(key))
+			this.inflight.set(key, pending)
+		}
+		return pending
+	}
+
+	/**
+	 * Checks if a key exists in the cache and whether it's fresh or stale.
+	 *
+	 * @param key - The unique identifier to check
+	 * @returns Cache status: "hit" (exists and fresh), "stale" (exists but expired), or "miss" (doesn't exist)
+	 *
+	 * @example
+	 * ```typescript
+	 * const status = await cache.has('user:123')
+	 * if (status === 'hit') {
+	 *   const value = await cache.get('user:123')
+	 * }
+	 * ```
+	 */
+	async has(key: string): Promise<CacheStatus> {
+		this._assertOpen()
+		const now = new Date().getTime() / 1000
+		const rv = this.stmtHas.get(key) as CacheRowWithTtl | undefined
+		return !rv ? "miss" : rv.ttl > now ? "hit" : "stale"
+	}
+
+	/**
+	 * Reads how long a key has left before it expires, without reading its value.
+	 *
+	 * @param key - The unique identifier to look up
+	 * @returns Seconds until the entry expires (negative once it has), Infinity if it never does, or undefined if the key is not in the cache
+	 *
+	 * @example
+	 * ```typescript
+	 * const left = await cache.getTtl('session:abc')
+	 * if (left !== undefined && left < 60) await cache.expire('session:abc', 1800)
+	 * ```
+	 */
+	async getTtl(key: string): Promise<number | undefined> {
+		this._assertOpen()
+		const rv = this.stmtHas.get(key) as CacheRowWithTtl | undefined
+		return rv && rv.ttl - new Date().getTime() / 1000
+	}
+
+	/**
+	 * Changes when a key expires, without rewriting its value. An entry with sliding expiration
+	 * keeps sliding, by the new TTL. Expiring a key in the past makes it stale: it is still
+	 * returned by get() until the tbd grace period is over.
+	 *
+	 * @param key - The unique identifier to update
+	 * @param expiry - Seconds from now, or the time to expire at
+	 * @returns Whether the key was in the cache
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.expire('session:abc', 1800)
+	 * await cache.expire('promo:summer', new Date('2026-09-01'))
+	 * ```
+	 */
+	async expire(key: string, expiry: number | Date): Promise<boolean> {
+		this._assertOpen()
+		const now = new Date().getTime() / 1000
+		const seconds = expiry instanceof Date ? expiry.getTime() / 1000 - now : expiry
+		this.memory?.delete(key)
+		return this.stmtExpire.run(now + seconds, seconds, key).changes > 0
+	}
+
+	/**
+	 * Removes the expiry of a key, so it stays until it is deleted or evicted. The value is not
+	 * rewritten, and sliding expiration is turned off.
+	 *
+	 * @param key - The unique identifier to update
+	 * @returns Whether the key was in the cache
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.persist('config:flags')
+	 * ```
+	 */
+	async persist(key: string): Promise<boolean> {
+		this._assertOpen()
+		this.memory?.delete(key)
+		return this.stmtPersist.run(Infinity, key).changes > 0
+	}
+
+	/**
+	 * Deletes a value from the cache, including any associated disk file.
+	 *
+	 * @param key - The unique identifier to delete
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.del('user:123')
+	 * ```
+	 */
+	async del(key: string) {
+		this._assertOpen()
+		this.memory?.delete(key)
+		const deleted = this.stmtDelete.get(key) as CacheRowWithFilename | undefined
+		if (deleted) {
+			this.metrics.count("deletes", key)
+			this._emit("delete", { key })
+		}
+		this._delFile(deleted?.filename)
+	}
+
+	/**
+	 * Lists the keys currently linked to a tag.
+	 *
+	 * @param tag - The tag to look up
+	 * @returns The tagged keys, sorted
+	 *
+	 * @example
+	 * ```typescript
+	 * const keys = await cache.keysForTag('user:42')
+	 * ```
+	 */
+	async keysForTag(tag: string): Promise<string[]> {
+		this._assertOpen()
+		const rows = this.stmtKeysForTag.all(tag) as Array<{ key: string }>
+		return rows.map((row) => row.key)
+	}
+
+	/**
+	 * Deletes every entry linked to a tag, including any associated disk files.
+	 *
+	 * @param tag - The tag to invalidate
+	 * @returns The number of entries deleted
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.invalidateTag('user:42')
+	 * ```
+	 */
+	async invalidateTag(tag: string): Promise<number> {
+		this._assertOpen()
+		return this.invalidateTags([tag])
+	}
+
+	/**
+	 * Deletes every entry linked to any of the given tags, including any associated disk files.
+	 *
+	 * @param tags - The tags to invalidate
+	 * @returns The number of entries deleted
+	 */
+	async invalidateTags(tags: string[]): Promise<number> {
+		this._assertOpen()
+		const keys = new Set<string>()
+		for (const tag of tags) {
+			for (const key of await this.keysForTag(tag)) keys.add(key)
+		}
+		for (const key of keys) await this.del(key)
+		return keys.size
+	}
+
+	/**
+	 * Iterates over the keys in the cache, in key order, reading them from SQLite in batches.
+	 * Iterating doesn't count as an access for LRU eviction.
+	 *
+	 * @param filter - Optional prefix, GLOB pattern, status and storage filters
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const key of cache.keys({ prefix: 'user:', status: 'stale' })) {
+	 *   console.log(key)
+	 * }
+	 * ```
+	 */
+	async *keys(filter: KeyFilter = {}): AsyncGenerator<string> {
+		this._assertOpen()
+		for await (const row of this._scan(filter, "key")) yield row.key!
+	}
+
+	/**
+	 * Iterates over the values in the cache, in key order. Entries whose file is gone or whose
+	 * value is corrupt are skipped.
+	 *
+	 * @param filter - Optional prefix, GLOB pattern, status and storage filters
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const value of cache.values({ storage: 'disk' })) {
+	 *   total += value.length
+	 * }
+	 * ```
+	 */
+	async *values(filter: KeyFilter = {}): AsyncGenerator<T> {
+		this._assertOpen()
+		for await (const [, value] of this.entries(filter)) yield value
+	}
+
+	/**
+	 * Iterates over `[key, value]` pairs in the cache, in key order. Entries whose file is gone or
+	 * whose value is corrupt are skipped.
+	 *
+	 * @param filter - Optional prefix, GLOB pattern, status and storage filters
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const [key, value] of cache.entries({ pattern: 'page:*.html' })) {
+	 *   console.log(key, value.length)
+	 * }
+	 * ```
+	 */
+	async *entries(filter: KeyFilter = {}): AsyncGenerator<[string, T]> {
+		this._assertOpen()
+		const columns = "key, value, filename, codec, compression, checksum, key_id as keyId"
+		for await (const row of this._scan(filter, columns) as AsyncGenerator<CacheRowWithValue>) {
+			const read = await this._readValue(row.key!, row)
+			if (read) yield [row.key!, read.value]
+		}
+	}
+
+	/**
+	 * Deletes every entry matching a GLOB pattern or a filter, including any associated disk files.
+	 * Entries are deleted in batches of batchSize, one write transaction each.
+	 *
+	 * @param filter - A SQLite GLOB pattern for keys, or a filter like `keys()` takes
+	 * @returns The number of entries deleted
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.deleteMatching('session:*')
+	 * await cache.deleteMatching({ prefix: 'tmp:', status: 'stale' })
+	 * ```
+	 */
+	async deleteMatching(filter: string | KeyFilter): Promise<number> {
+		this._assertOpen()
+		let deleted = 0
+		const batch: CacheRowWithFilename[] = []
+		const flush = () => {
+			// one write transaction per batch, which is deleted as a whole or not at all
+			const removed = this.db.transaction(() => batch.flatMap((row) => {
+				const deleted = this.stmtDelete.get(row.key) as CacheRowWithFilename | undefined
+				return deleted ? [{ key: row.key, filename: deleted.filename }] : []
+			})).immediate()
+			for (const row of batch) this.memory?.delete(row.key!)
+			for (const row of removed) {
+				this.metrics.count("deletes", row.key)
+				this._emit("delete", { key: row.key })
+			}
+			for (const row of removed) this._delFile(row.filename)
+			deleted += batch.length
+			batch.length = 0
+		}
+		const options = typeof filter === "string" ? { pattern: filter } : filter
+		for await (const row of this._scan(options, "key, filename") as AsyncGenerator<CacheRowWithFilename>) {
+			batch.push(row)
+			if (batch.length >= (options.batchSize ?? 100)) flush()
+		}
+		flush()
+		return deleted
+	}
+
+	/**
+	 * Writes the entries matching a filter to a stream as a portable archive, then ends the stream.
+	 * The archive is NDJSON: a header line, then one line per entry with its key, codec, tags,
+	 * remaining TTL and value. Values are exported decompressed and decrypted, whether they are
+	 * stored in SQLite or on disk, so any cache can import them.
+	 *
+	 * @param stream - Where to write the archive
+	 * @param filter - Optional prefix, GLOB pattern, status and storage filters
+	 * @returns The number of entries exported
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.export(fs.createWriteStream('warm.ndjson'), { status: 'hit' })
+	 * ```
+	 */
+	async export(stream: Writable, filter: KeyFilter = {}): Promise<number> {
+		this._assertOpen()
+		let count = 0
+		const lines = async function* (cache: Cache<T>) {
+			const now = new Date().getTime() / 1000
+			const header: ArchiveHeader = { format: "xxstache", version: ARCHIVE_VERSION, exported: now }
+			yield JSON.stringify(header) + "\n"
+			const columns = "key, value, filename, ttl, codec, compression, checksum, key_id as keyId, sliding"
+			for await (const row of cache._scan(filter, columns) as AsyncGenerator<CacheRowWithValue>) {
+				const key = row.key!
+				const data = await cache._readStored(key, row)
+				if (!data) continue
+				const tags = (cache.stmtTagsForKey.all(key) as Array<{ tag: string }>).map(({ tag }) => tag)
+				const entry: ArchiveEntry = {
+					key,
+					codec: row.codec ?? bufferSerializer.name,
+					ttl: row.ttl === Infinity ? null : row.ttl - now,
+					sliding: row.sliding ?? undefined,
+					tags: tags.length ? tags : undefined,
+					value: (await cache._unseal(key, data, row)).toString("base64"),
+				}
+				yield JSON.stringify(entry) + "\n"
+				count++
+			}
+		}
+		await pipelineAsync(lines(this), stream)
+		return count
+	}
+
+	/**
+	 * Reads an archive written by `export()` and stores its entries, re-encoded with this cache's
+	 * compression and encryption, in batches of one transaction each.
+	 *
+	 * @param stream - The archive to read
+	 * @param options - Merge policy for existing keys, and whether to rebase TTLs on the import time
+	 * @returns How many entries were imported, and how many were skipped
+	 * @throws Error if the stream is not an export of a supported version
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.import(fs.createReadStream('warm.ndjson'), { policy: 'skip-existing' })
+	 * ```
+	 */
+	async import(stream: Readable, { policy = "overwrite", rebase = true, batchSize = 100 }: ImportOptions = {}): Promise<ImportReport> {
+		this._assertOpen()
+		const report: ImportReport = { imported: 0, skipped: 0 }
+		let header: ArchiveHeader | undefined
+		let writes: CacheWrite<T>[] = []
+		const flush = async () => {
+			if (writes.length === 0) return
+			await this._commit(writes)
+			report.imported += writes.length
+			writes = []
+		}
+		for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+			if (!line.trim()) continue
+			if (!header) {
+				header = JSON.parse(line) as ArchiveHeader
+				if (header.format !== "xxstache") throw new Error("Not an xxstache export")
+				if (header.version > ARCHIVE_VERSION) throw new Error(`Unsupported export version ${header.version}`)
+				continue
+			}
+			const entry = JSON.parse(line) as ArchiveEntry
+			const now = new Date().getTime() / 1000
+			const ttl = entry.ttl === null ? Infinity : (rebase ? now : header.exported) + entry.ttl
+			if (policy !== "overwrite") {
+				const existing = this.stmtHas.get(entry.key) as CacheRowWithTtl | undefined
+				if (existing && (policy === "skip-existing" || existing.ttl >= ttl)) {
+					report.skipped++
+					continue
+				}
+			}
+			const expiry = { ttl, sliding: entry.sliding ?? null }
+			writes.push(await this._encodeBytes(entry.key, Buffer.from(entry.value, "base64"), entry.codec, expiry, now, entry.tags))
+			if (writes.length >= batchSize) await flush()
+		}
+		if (!header) throw new Error("Not an xxstache export")
+		await flush()
+
+		if (this._lruEnabled()) {
+			await this._evictLRU()
+		}
+		return report
+	}
+
+	/**
+	 * Pages through the rows matching a filter in key order, resuming after the last key seen so
+	 * that rows can be deleted while scanning.
+	 */
+	private async *_scan(filter: KeyFilter, columns: string): AsyncGenerator<CacheRow> {
+		const { prefix, pattern, status, storage, batchSize = 100 } = filter
+		const where = ["key > @after"]
+		const params: Record<string, string | number> = { limit: batchSize }
+		if (prefix !== undefined) {
+			where.push("substr(key, 1, length(@prefix)) = @prefix")
+			params.prefix = prefix
+		}
+		if (pattern !== undefined) {
+			where.push("key GLOB @pattern")
+			params.pattern = pattern
+		}
+		if (status) {
+			where.push(status === "hit" ? "ttl > @now" : "ttl <= @now")
+			params.now = new Date().getTime() / 1000
+		}
+		if (storage) where.push(storage === "db" ? "filename IS NULL" : "filename IS NOT NULL")
+		const stmt = this.db.prepare(`SELECT ${columns} FROM cache WHERE ${where.join(" AND ")} ORDER BY key LIMIT @limit`)
+
+		let after = ""
+		for (;;) {
+			const rows = stmt.all({ ...params, after }) as CacheRow[]
+			if (rows.length === 0) return
+			after = rows[rows.length - 1].key!
+			yield* rows
+		}
+	}
+
+	/**
+	 * Whether any LRU limit (entry count or byte budget) is configured.
+	 */
+	_lruEnabled(): boolean {
+		return [this.maxEntries, this.maxSize, this.maxDbSize, this.maxDiskSize].some((limit) => !!limit && limit > 0)
+	}
+
+	/**
+	 * Evicts the least recently used entries when cache exceeds maxEntries or a byte budget.
+	 * Private method called automatically by set() when an LRU limit is configured.
+	 */
+	async _evictLRU() {
+		// Processes sharing the database take turns, one evicting for all of them
+		await this._withLease("evict", () => {
+			if (this.maxEntries && this.maxEntries > 0) this._evictEntries(this.maxEntries)
+			if (this.maxSize && this.maxSize > 0) this._evictBytes(this.stmtTotalSize, this.stmtLRUBySize, this.maxSize)
+			if (this.maxDbSize && this.maxDbSize > 0) this._evictBytes(this.stmtDbSize, this.stmtLRUBySizeDb, this.maxDbSize)
+			if (this.maxDiskSize && this.maxDiskSize > 0) this._evictBytes(this.stmtDiskSize, this.stmtLRUBySizeDisk, this.maxDiskSize)
+		})
+	}
+
+	private _evictEntries(maxEntries: number) {
+		// Count current entries (non-expired)
+		const now = new Date().getTime() / 1000
+		const count = this.stmtCountEntries.get(now) as { count: number }
+		
+		// If we're under the limit, no eviction needed
+		if (count.count <= maxEntries) return
+
+		// Calculate how many to evict
+		const toEvict = count.count - maxEntries
+
+		// Get the least recently used entries (oldest atime)
+		const rows = this.stmtEvictLRU.all(now, toEvict) as CacheRowWithFilename[]
+
+		// Delete them from cache and their files
+		for (const row of rows) {
+			this.memory?.delete(row.key)
+			this._delFile((this.stmtDelete.get(row.key) as CacheRowWithFilename | undefined)?.filename)
+			this.metrics.count("evictions", row.key)
+			this._emit("evict", { key: row.key, reason: "lru" })
+		}
+	}
+
+	/**
+	 * Evicts least recently used entries until the bytes reported by `total` fit in `budget`.
+	 * Expired entries still occupy space, so they count towards byte budgets.
+	 */
+	private _evictBytes(total: Statement, lru: Statement, budget: number) {
+		let { size } = total.get() as { size: number }
+		if (size <= budget) return
+
+		// Collect victims first: the connection is busy while iterating
+		const victims: CacheRowWithSize[] = []
+		for (const row of lru.iterate() as IterableIterator<CacheRowWithSize>) {
+			if (size <= budget) break
+			victims.push(row)
+			size -= row.size
+		}
+
+		for (const row of victims) {
+			this.memory?.delete(row.key)
+			this._delFile((this.stmtDelete.get(row.key) as CacheRowWithFilename | undefined)?.filename)
+			this.metrics.count("evictions", row.key)
+			this._emit("evict", { key: row.key, reason: "size" })
+		}
+	}
+
+	/**
+	 * Removes a cache file once no row points to it anymore.
+	 * The check and the unlink happen in one transaction holding the write lock, so no write, from
+	 * this process or another one, can start referencing the file in between.
+	 */
+	_delFile(filename?: string | null) {
+		if (!filename) return
+		this.delFileTx.immediate(filename)
+	}
+
+	/**
+	 * Runs fn while holding a named lease shared by every process using this database, so only one
+	 * of them runs it at a time. Returns undefined without running fn while another process holds
+	 * the lease. Leases expire after DEFAULT_LEASE_TTL seconds, in case their holder crashed; long
+	 * runs call renew() to extend theirs, which returns false once another process has taken it over.
+	 */
+	private async _withLease<R>(name: string, fn: (renew: () => boolean) => R | Promise<R>): Promise<R | undefined> {
+		const renew = () => {
+			const now = new Date().getTime() / 1000
+			return this.stmtAcquireLease.run({ name, owner: this.leaseOwner, expires: now + DEFAULT_LEASE_TTL, now }).changes > 0
+		}
+		if (!renew()) return undefined
+		try {
+			return await fn(renew)
+		} finally {
+			this.stmtReleaseLease.run(name, this.leaseOwner)
+		}
+	}
+
+	/**
+	 * Reports how many bytes file-backed entries take on disk, and how many content-addressed
+	 * deduplication saved.
+	 *
+	 * @example
+	 * ```typescript
+	 * const { savedBytes } = await cache.dedupeStats()
+	 * ```
+	 */
+	async dedupeStats(): Promise<DedupeStats> {
+		this._assertOpen()
+		const rv = this.stmtDedupeStats.get() as { files: number; refs: number; stored: number; logical: number }
+		return {
+			files: rv.files,
+			references: rv.refs,
+			storedBytes: rv.stored,
+			logicalBytes: rv.logical,
+			savedBytes: rv.logical - rv.stored,
+		}
+	}
+
+	/**
+	 * Permanently removes expired entries from the cache.
+	 * Entries are purged after TTL + TBD (grace period) has passed.
+	 * Rows and their files are removed in batches, one transaction each, yielding to the event loop
+	 * in between so other reads and writes aren't blocked by a large purge.
+	 * When several processes share the database, only one of them purges at a time; the others
+	 * return 0 right away.
+	 *
+	 * @param options - Batch size, and a limit on how many entries this call purges
+	 * @returns The number of cache entries that were purged
+	 *
+	 * @example
+	 * ```typescript
+	 * const purged = await cache.purge()
+	 * console.log(`Purged ${purged} expired entries`)
+	 * await cache.purge({ limit: 10000 }) // leave the rest for the next call
+	 * ```
+	 */
+	async purge({ batchSize = DEFAULT_PURGE_BATCH_SIZE, limit = Infinity }: PurgeOptions = {}): Promise<number> {
+		this._assertOpen()
+		const purged = await this._withLease("purge", async (renew) => {
+			// ttl + tbd < now => ttl < now - tbd
+			const now = new Date().getTime() / 1000 - this.tbd
+			let count = 0
+			while (count < limit) {
+				const rows = this.db.transaction(() => {
+					const rows = this.stmtPurgeSelect.all(now, Math.min(batchSize, limit - count)) as CacheRowWithFilename[]
+					for (const row of rows) this.stmtPurgeDelete.run(row.key)
+					return rows
+				}).immediate()
+				for (const row of rows) {
+					this.memory?.delete(row.key)
+					this._delFile(row.filename)
+					this.metrics.count("purged", row.key)
+					this._emit("evict", { key: row.key, reason: "expired" })
+				}
+				count += rows.length
+				if (rows.length < batchSize || !renew()) break
+				await yieldToEventLoop()
+			}
+			this._emit("purge", { count })
+			await purgeEmptyPath(this.storePath)
+			return count
+		})
+		return purged ?? 0
+	}
+
+	/**
+	 * Reports operation counters since the cache was created, and the entries and bytes it holds.
+	 * With `metricsDelimiter`, the same figures are broken down by key prefix.
+	 *
+	 * @returns Counters, corrupt entries, and entries and bytes in SQLite and on disk
+	 *
+	 * @example
+	 * ```typescript
+	 * const { hits, misses } = await cache.stats()
+	 * console.log(`hit rate ${hits / (hits + misses)}`)
+	 * ```
+	 */
+	async stats(): Promise<CacheStats> {
+		this._assertOpen()
+		const stats: CacheStats = { ...this.metrics.total, corrupted: this.corrupted, ...(this.stmtUsage.get() as Usage) }
+		if (this.metrics.delimiter) {
+			const prefixes: Record<string, PrefixStats> = {}
+			for (const [prefix, counters] of this.metrics.prefixes) {
+				prefixes[prefix] = { ...counters, entries: 0, dbBytes: 0, diskBytes: 0 }
+			}
+			for (const { prefix, ...usage } of this.stmtUsageByPrefix.all({ delimiter: this.metrics.delimiter }) as Array<Usage & { prefix: string }>) {
+				prefixes[prefix] = { ...(this.metrics.prefixes.get(prefix) ?? emptyCounters()), ...usage }
+			}
+			stats.prefixes = prefixes
+		}
+		if (this.memory) stats.memory = this.memory.stats()
+		return stats
+	}
+
+	/**
+	 * Renders `stats()` in the Prometheus text exposition format, for a `/metrics` endpoint.
+	 *
+	 * @param namespace - Prefix of the metric names. Default: "xxstache"
+	 * @returns The metrics as text
+	 *
+	 * @example
+	 * ```typescript
+	 * app.get('/metrics', async (req, res) => {
+	 *   res.type('text/plain').send(await cache.toPrometheus())
+	 * })
+	 * ```
+	 */
+	async toPrometheus(namespace?: string): Promise<string> {
+		this._assertOpen()
+		return formatPrometheus(await this.stats(), namespace)
+	}
+
+	/**
+	 * Removes every entry and the files of its file-backed values, in one transaction holding the
+	 * write lock. Temporary files of writes in flight and files no entry points to are left to `reconcile()`.
+	 *
+	 * @returns The number of entries removed
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.clear()
+	 * ```
+	 */
+	async clear(): Promise<number> {
+		this._assertOpen()
+		const cleared = this.db.transaction(() => {
+			// only the files of this database's rows: path may hold those of another one
+			const filenames = new Set((this.stmtFileRows.all() as CacheRowWithFilename[]).map((row) => row.filename!))
+			const { changes } = this.stmtClear.run()
+			for (const filename of filenames) {
+				try {
+					fs.unlinkSync(pathJoin(this.storePath, filename))
+				} catch {
+					// File might already be deleted
+				}
+			}
+			return changes
+		}).immediate()
+		this.memory?.clear()
+		await purgeEmptyPath(this.storePath)
+		return cleared
+	}
+
+	/**
+	 * Reclaims the space left by deleted entries: rebuilds the database file with `VACUUM`,
+	 * checkpoints and truncates the write-ahead log, and removes empty directories of the file store.
+	 * VACUUM rewrites the whole database and needs as much free disk space while it runs.
+	 *
+	 * @returns The size of the database before and after
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.deleteMatching('session:*')
+	 * const { before, after } = await cache.compact()
+	 * ```
+	 */
+	async compact(): Promise<CompactReport> {
+		this._assertOpen()
+		const before = this._databaseSize()
+		this.db.exec("VACUUM")
+		// in WAL mode, VACUUM writes the rebuilt pages to the log first
+		this.db.pragma("wal_checkpoint(TRUNCATE)")
+		await purgeEmptyPath(this.storePath)
+		return { before, after: this._databaseSize() }
+	}
+
+	private _databaseSize(): number {
+		const pages = (this.db.pragma("page_count", { simple: true }) as number) * (this.db.pragma("page_size", { simple: true }) as number)
+		const wal = `${this.dbPath}-wal`
+		return pages + (hasPersistentDatabaseLocation(this.dbPath) && fs.existsSync(wal) ? fs.statSync(wal).size : 0)
+	}
+
+	/**
+	 * Closes the database. Operations on the cache throw afterwards; closing again does nothing.
+	 * Wait for pending operations first, they fail once the database is closed.
+	 *
+	 * @example
+	 * ```typescript
+	 * await cache.close()
+	 * // or let the scope close it:
+	 * await using cache = new Cache()
+	 * ```
+	 */
+	async close() {
+		this.memory?.clear()
+		if (this.db.open) this.db.close()
+		if (!hasPersistentDatabaseLocation(this.dbPath)) {
+			// the files of an in-memory database are unreachable once it is closed
+			await fs.rm(this.storePath, { recursive: true, force: true })
+			closeEphemeralStore(this.store)
+		}
+	}
+
+	async [Symbol.asyncDispose]() {
+		await this.close()
+	}
+
+	private _assertOpen() {
+		if (!this.db.open) throw new Error("The cache is closed: create a new Cache to use its database again")
 	}
 
 	/**
@@ -0,0 +1,100 @@
+/**
+ * Options of the in-memory tier in front of SQLite and the file store.
+ */
+export interface MemoryOptions {
+	/** Max entries kept in memory. Default: 1000 */
+	maxEntries?: number
+	/** Max bytes kept in memory, counted by the serialized size of values, before compression and encryption. Default: 16MB */
+	maxSize?: number
+	/** Max seconds an entry is served from memory, which bounds how long writes of other processes go unseen. Default: the entry's TTL */
+	ttl?: number
+}
+
+/**
+ * Counters and usage of the memory tier, as reported by `stats()`.
+ */
+export interface MemoryStats {
+	entries: number
+	bytes: number
+	/** Reads served from memory */
+	hits: number
+	/** Reads that fell through to SQLite */
+	misses: number
+}
+
+interface MemoryEntry<T> {
+	value: T
+	/** Expiry time in seconds, like the ttl column */
+	ttl: number
+	size: number
+	/** Last time the entry's atime was updated in SQLite */
+	touched: number
+	/** Sliding window of the entry in seconds, or null if reads don't extend its expiry */
+	sliding: number | null
+}
+
+/**
+ * Bounded LRU map of decoded values. A Map iterates in insertion order, so re-inserting an
+ * entry on every read keeps the least recently used one first.
+ */
+export class MemoryTier<T> {
+	maxEntries: number
+	maxSize: number
+	ttl: number | undefined
+	bytes = 0
+	hits = 0
+	misses = 0
+	/** Bumped on every write, so reads that started before a write don't cache what they read */
+	version = 0
+	private entries = new Map<string, MemoryEntry<T>>()
+
+	constructor({ maxEntries = 1000, maxSize = 16 * 1024 * 1024, ttl }: MemoryOptions = {}) {
+		this.maxEntries = maxEntries
+		this.maxSize = maxSize
+		this.ttl = ttl
+	}
+
+	get(key: string, now: number): MemoryEntry<T> | undefined {
+		const entry = this.entries.get(key)
+		if (!entry || entry.ttl <= now) {
+			if (entry) this.delete(key)
+			this.misses++
+			return undefined
+		}
+		this.entries.delete(key)
+		this.entries.set(key, entry)
+		this.hits++
+		return entry
+	}
+
+	set(key: string, value: T, ttl: number, size: number, now: number, sliding: number | null = null) {
+		this.delete(key)
+		const expires = this.ttl === undefined ? ttl : Math.min(ttl, now + this.ttl)
+		if (expires <= now || size > this.maxSize) return
+		this.entries.set(key, { value, ttl: expires, size, touched: now, sliding })
+		this.bytes += size
+		for (const [oldest, entry] of this.entries) {
+			if (this.entries.size <= this.maxEntries && this.bytes <= this.maxSize) break
+			this.entries.delete(oldest)
+			this.bytes -= entry.size
+		}
+	}
+
+	delete(key: string) {
+		this.version++
+		const entry = this.entries.get(key)
+		if (!entry) return
+		this.entries.delete(key)
+		this.bytes -= entry.size
+	}
+
+	clear() {
+		this.version++
+		this.entries.clear()
+		this.bytes = 0
+	}
+
+	stats(): MemoryStats {
+		return { entries: this.entries.size, bytes: this.bytes, hits: this.hits, misses: this.misses }
+	}
+}
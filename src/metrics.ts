@@ -0,0 +1,135 @@
+import type { MemoryStats } from "./memory"
+
+/**
+ * Operation counters kept by a cache, in total and per key prefix.
+ */
+export interface Counters {
+	/** Reads of fresh entries */
+	hits: number
+	/** Reads of keys that are not in the cache */
+	misses: number
+	/** Reads of expired entries that were still returned */
+	stale: number
+	/** Entries written */
+	sets: number
+	/** Entries deleted explicitly */
+	deletes: number
+	/** Entries evicted by maxEntries or a byte budget */
+	evictions: number
+	/** Expired entries removed by purge() */
+	purged: number
+}
+
+/**
+ * Entry count and stored bytes, in total and per key prefix.
+ */
+export interface Usage {
+	entries: number
+	/** Bytes stored as SQLite blobs */
+	dbBytes: number
+	/** Bytes stored as files */
+	diskBytes: number
+}
+
+export interface PrefixStats extends Counters, Usage {}
+
+/**
+ * Snapshot returned by `stats()`.
+ */
+export interface CacheStats extends Counters, Usage {
+	/** Corrupt entries found by verifyOnRead or verify() */
+	corrupted: number
+	/** Breakdown by key prefix, when `metricsDelimiter` is configured */
+	prefixes?: Record<string, PrefixStats>
+	/** The memory tier's own counters, when it is enabled */
+	memory?: MemoryStats
+}
+
+export function emptyCounters(): Counters {
+	return { hits: 0, misses: 0, stale: 0, sets: 0, deletes: 0, evictions: 0, purged: 0 }
+}
+
+/**
+ * Counts cache operations, in total and, with a delimiter, per key prefix.
+ * The prefix of a key is everything before the first delimiter, or "" if it has none.
+ */
+export class Metrics {
+	total = emptyCounters()
+	prefixes = new Map<string, Counters>()
+
+	constructor(public delimiter?: string) {}
+
+	prefix(key: string): string {
+		const i = this.delimiter ? key.indexOf(this.delimiter) : -1
+		return i < 0 ? "" : key.slice(0, i)
+	}
+
+	count(counter: keyof Counters, key: string, n = 1) {
+		this.total[counter] += n
+		if (!this.delimiter) return
+		const prefix = this.prefix(key)
+		let counters = this.prefixes.get(prefix)
+		if (!counters) {
+			counters = emptyCounters()
+			this.prefixes.set(prefix, counters)
+		}
+		counters[counter] += n
+	}
+}
+
+const counterHelp: Record<keyof Counters, [string, string]> = {
+	hits: ["hits_total", "Reads of fresh entries."],
+	misses: ["misses_total", "Reads of keys that are not in the cache."],
+	stale: ["stale_total", "Reads of expired entries that were still returned."],
+	sets: ["sets_total", "Entries written."],
+	deletes: ["deletes_total", "Entries deleted explicitly."],
+	evictions: ["evictions_total", "Entries evicted by maxEntries or a byte budget."],
+	purged: ["purged_total", "Expired entries removed by purge()."],
+}
+
+function label(value: string) {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")
+}
+
+/**
+ * Formats stats in the Prometheus text exposition format. With a prefix breakdown, per-key
+ * metrics are labelled by prefix instead of being reported in total.
+ */
+export function formatPrometheus(stats: CacheStats, namespace = "xxstache"): string {
+	const lines: string[] = []
+	const family = (name: string, type: string, help: string) => {
+		lines.push(`# HELP ${namespace}_${name} ${help}`, `# TYPE ${namespace}_${name} ${type}`)
+	}
+	const sample = (name: string, labels: Record<string, string>, value: number) => {
+		const pairs = Object.entries(labels).map(([k, v]) => `${k}="${label(v)}"`)
+		lines.push(`${namespace}_${name}${pairs.length ? `{${pairs.join(",")}}` : ""} ${value}`)
+	}
+	const rows: Array<[Record<string, string>, Counters & Usage]> = stats.prefixes
+		? Object.entries(stats.prefixes).map(([prefix, s]) => [{ prefix }, s])
+		: [[{}, stats]]
+
+	for (const [counter, [name, help]] of Object.entries(counterHelp) as Array<[keyof Counters, [string, string]]>) {
+		family(name, "counter", help)
+		for (const [labels, s] of rows) sample(name, labels, s[counter])
+	}
+	family("corrupted_total", "counter", "Corrupt entries found by checksum verification.")
+	sample("corrupted_total", {}, stats.corrupted)
+	family("entries", "gauge", "Entries in the cache, including expired ones not purged yet.")
+	for (const [labels, s] of rows) sample("entries", labels, s.entries)
+	family("stored_bytes", "gauge", "Bytes stored, by storage location.")
+	for (const [labels, s] of rows) {
+		sample("stored_bytes", { ...labels, storage: "db" }, s.dbBytes)
+		sample("stored_bytes", { ...labels, storage: "disk" }, s.diskBytes)
+	}
+	if (stats.memory) {
+		family("memory_hits_total", "counter", "Reads served by the memory tier.")
+		sample("memory_hits_total", {}, stats.memory.hits)
+		family("memory_misses_total", "counter", "Reads that fell through the memory tier.")
+		sample("memory_misses_total", {}, stats.memory.misses)
+		family("memory_entries", "gauge", "Entries in the memory tier.")
+		sample("memory_entries", {}, stats.memory.entries)
+		family("memory_bytes", "gauge", "Serialized bytes of the entries in the memory tier.")
+		sample("memory_bytes", {}, stats.memory.bytes)
+	}
+	return lines.join("\n") + "\n"
+}
@@ -0,0 +1,139 @@
+import { Database } from "better-sqlite3"
+import { persistentStore } from "./stores"
+
+/**
+ * One step of the database schema, applied once, in order, and recorded in `PRAGMA user_version`.
+ * Databases created before versioning have a user_version of 0 but may already have some of the
+ * columns, so steps only add what is missing.
+ */
+export interface Migration {
+	version: number
+	description: string
+	up: (db: Database) => void
+}
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+	const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>
+	return columns.some(({ name }) => name === column)
+}
+
+function addColumn(db: Database, table: string, column: string, definition: string) {
+	if (!hasColumn(db, table, column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+}
+
+export const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		description: "cache table",
+		up: (db) => db.exec(`
+			CREATE TABLE IF NOT EXISTS cache (key TEXT PRIMARY KEY, value BLOB, filename TEXT, ttl REAL NOT NULL);
+			CREATE INDEX IF NOT EXISTS cache_ttl ON cache (ttl);
+		`),
+	},
+	{
+		version: 2,
+		description: "atime column for LRU eviction",
+		up: (db) => {
+			addColumn(db, "cache", "atime", "REAL NOT NULL DEFAULT 0")
+			db.exec("CREATE INDEX IF NOT EXISTS cache_atime ON cache (atime)")
+		},
+	},
+	{
+		version: 3,
+		description: "size column for byte budgets",
+		up: (db) => {
+			if (hasColumn(db, "cache", "size")) return
+			db.exec("ALTER TABLE cache ADD COLUMN size INTEGER NOT NULL DEFAULT 0")
+			// sizes of file-backed values are unknown until they are rewritten
+			db.exec("UPDATE cache SET size = length(value) WHERE value IS NOT NULL")
+		},
+	},
+	{
+		version: 4,
+		description: "cache_tags table",
+		up: (db) => db.exec(`
+			CREATE TABLE IF NOT EXISTS cache_tags (tag TEXT NOT NULL, key TEXT NOT NULL REFERENCES cache (key) ON DELETE CASCADE, PRIMARY KEY (tag, key));
+			CREATE INDEX IF NOT EXISTS cache_tags_key ON cache_tags (key);
+		`),
+	},
+	{
+		version: 5,
+		description: "codec column, NULL for raw Buffers",
+		up: (db) => addColumn(db, "cache", "codec", "TEXT"),
+	},
+	{
+		version: 6,
+		description: "compression column, NULL for uncompressed values",
+		up: (db) => addColumn(db, "cache", "compression", "TEXT"),
+	},
+	{
+		version: 7,
+		description: "filename index for deduplicated files",
+		up: (db) => db.exec("CREATE INDEX IF NOT EXISTS cache_filename ON cache (filename)"),
+	},
+	{
+		version: 8,
+		description: "checksum column, NULL for unverifiable values",
+		up: (db) => addColumn(db, "cache", "checksum", "TEXT"),
+	},
+	{
+		version: 9,
+		description: "cache_leases table",
+		up: (db) => db.exec("CREATE TABLE IF NOT EXISTS cache_leases (name TEXT PRIMARY KEY, owner TEXT NOT NULL, expires REAL NOT NULL)"),
+	},
+	{
+		version: 10,
+		description: "key_id column, NULL for unencrypted values",
+		up: (db) => addColumn(db, "cache", "key_id", "TEXT"),
+	},
+	{
+		version: 11,
+		description: "sliding column, NULL for entries whose expiry reads don't extend",
+		up: (db) => addColumn(db, "cache", "sliding", "REAL"),
+	},
+	{
+		version: 12,
+		description: "cache_meta table, naming the subdirectory of path the database keeps its files in",
+		up: (db) => {
+			db.exec("CREATE TABLE IF NOT EXISTS cache_meta (name TEXT PRIMARY KEY, value TEXT NOT NULL)")
+			// databases that already have files keep them directly in path
+			const legacy = db.prepare("SELECT 1 FROM cache WHERE filename IS NOT NULL LIMIT 1").get()
+			const store = legacy ? "" : persistentStore()
+			db.prepare("INSERT OR IGNORE INTO cache_meta (name, value) VALUES ('store', ?)").run(store)
+		},
+	},
+	{
+		version: 13,
+		description: "cache_quarantine table, recording the key of each file moved to quarantinePath",
+		up: (db) => db.exec("CREATE TABLE IF NOT EXISTS cache_quarantine (filename TEXT PRIMARY KEY, key TEXT NOT NULL, time REAL NOT NULL)"),
+	},
+]
+
+/** Schema version of databases written by this version of xxstache */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Brings a database up to SCHEMA_VERSION. Each step runs in its own IMMEDIATE transaction together
+ * with the user_version update, so a failed step leaves the database at the previous version, and
+ * processes opening the same database at once apply each step only once.
+ *
+ * @returns The schema version the database had before
+ * @throws If the database was created by a newer version of xxstache
+ */
+export function migrate(db: Database): number {
+	const version = () => db.pragma("user_version", { simple: true }) as number
+	const from = version()
+	if (from > SCHEMA_VERSION) {
+		throw new Error(`The cache database "${db.name}" has schema version ${from}, but this version of xxstache only supports up to ${SCHEMA_VERSION}. Upgrade xxstache or use another dbPath.`)
+	}
+	for (const migration of MIGRATIONS) {
+		if (migration.version <= from) continue
+		db.transaction(() => {
+			// another process may have applied it while this one waited for the lock
+			if (version() >= migration.version) return
+			migration.up(db)
+			db.pragma(`user_version = ${migration.version}`)
+		}).immediate()
+	}
+	return from
+}
@@ -0,0 +1,83 @@
+import { deserialize, serialize } from "v8"
+
+/**
+ * Converts cached values to and from the bytes stored in SQLite or on disk.
+ * The codec name is recorded with every entry, so entries are always decoded
+ * by the codec that wrote them.
+ */
+export interface Serializer<T> {
+	/** Codec name stored with each entry */
+	name: string
+	serialize(value: T): Buffer
+	deserialize(data: Buffer): T
+}
+
+/**
+ * Raw Buffers, stored as-is. This is the default codec and the one used for
+ * entries written before codecs were recorded.
+ */
+export const buffer: Serializer<Buffer> = {
+	name: "buffer",
+	serialize: (value) => value,
+	deserialize: (data) => data,
+}
+
+/**
+ * UTF-8 strings.
+ */
+export const string: Serializer<string> = {
+	name: "string",
+	serialize: (value) => Buffer.from(value, "utf8"),
+	deserialize: (data) => data.toString("utf8"),
+}
+
+/**
+ * JSON-compatible values, through JSON.stringify/JSON.parse. Nothing checks that what is parsed
+ * back is a T: leave T as unknown to narrow values yourself.
+ *
+ * @example
+ * ```typescript
+ * const users = new Cache<User>({ serializer: serializers.json<User>() })
+ * ```
+ */
+export function json<T = unknown>(): Serializer<T> {
+	return {
+		name: "json",
+		serialize: (value) => Buffer.from(JSON.stringify(value), "utf8"),
+		deserialize: (data) => JSON.parse(data.toString("utf8")) as T,
+	}
+}
+
+/**
+ * Structured-clone compatible values (Maps, Sets, Dates, typed arrays...), through v8.serialize.
+ * Like json(), T is not checked when values are deserialized.
+ */
+export function v8<T = unknown>(): Serializer<T> {
+	return {
+		name: "v8",
+		serialize: (value) => serialize(value),
+		deserialize: (data) => deserialize(data) as T,
+	}
+}
+
+const builtins: Record<string, Serializer<unknown>> = {
+	[buffer.name]: buffer,
+	[string.name]: string,
+	json: json(),
+	v8: v8(),
+}
+
+/**
+ * Finds the codec that wrote an entry: the cache's own serializer, or one of the built-ins.
+ *
+ * @param codec - The codec name recorded with the entry, null for entries that predate codecs
+ * @param serializer - The cache's configured serializer
+ * @throws Error if the codec is unknown
+ */
+export function getSerializer<T>(codec: string | null | undefined, serializer: Serializer<T>): Serializer<unknown> {
+	const name = codec ?? buffer.name
+	if (name === serializer.name) return serializer as Serializer<unknown>
+	const found = builtins[name]
+	if (!found) throw new Error(`Unknown codec "${name}", no serializer is registered under that name`)
+	return found
+}
@@ -0,0 +1,64 @@
+import { createHash, randomBytes } from "crypto"
+import { hostname } from "os"
+
+/**
+ * Every database keeps its files in a store: a subdirectory of path named after it, so caches
+ * sharing a path never take each other's files for orphans. A persistent database records the
+ * name of its store; an in-memory or temporary one gets a new store each time it is opened, which
+ * is dead, and can be reclaimed by any cache on the path, once the cache is closed or its process
+ * has exited.
+ */
+
+/** Prefix of the names of stores */
+export const STORE_PREFIX = "db-"
+
+/** Tells the stores of processes on this host from those of other hosts sharing the path */
+const HOST = createHash("sha256").update(hostname()).digest("hex").slice(0, 8)
+
+const EPHEMERAL_STORE = new RegExp(`^${STORE_PREFIX}tmp-([0-9a-f]{8})-(\\d+)-[0-9a-f]+$`)
+
+/** Stores of the in-memory and temporary databases open in this process */
+const openStores = new Set<string>()
+
+export function isStore(name: string): boolean {
+	return name.startsWith(STORE_PREFIX)
+}
+
+/**
+ * Name of a new store for a persistent database, recorded in its cache_meta table.
+ */
+export function persistentStore(): string {
+	return `${STORE_PREFIX}${randomBytes(8).toString("hex")}`
+}
+
+/**
+ * Name of a new store for an in-memory or temporary database, which holds the host and process
+ * it was opened in. Pass it to closeEphemeralStore() once the database is closed.
+ */
+export function openEphemeralStore(): string {
+	const name = `${STORE_PREFIX}tmp-${HOST}-${process.pid}-${randomBytes(4).toString("hex")}`
+	openStores.add(name)
+	return name
+}
+
+export function closeEphemeralStore(name: string) {
+	openStores.delete(name)
+}
+
+/**
+ * Whether a store belongs to an in-memory or temporary database that was closed, or whose process
+ * has exited. Stores of persistent databases and of other hosts never are.
+ */
+export function isDeadStore(name: string): boolean {
+	const match = EPHEMERAL_STORE.exec(name)
+	if (!match || match[1] !== HOST) return false
+	const pid = Number(match[2])
+	if (pid === process.pid) return !openStores.has(name)
+	try {
+		process.kill(pid, 0)
+		return false
+	} catch (err) {
+		// EPERM means the process exists, under another user
+		return (err as NodeJS.ErrnoException).code === "ESRCH"
+	}
+}
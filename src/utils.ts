@@ -1,8 +1,11 @@
 import xxhash from "xxhash-wasm";
+import { randomBytes } from "crypto";
 import fs from "fs-extra";
 import { mkdirSync } from "fs";
 import { tmpdir } from "os";
-import { join, basename } from "path";
+import { join, basename, dirname, resolve } from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
 import { DEFAULT_DB_NAME, DEFAULT_DIRECTORY_NAME } from "./consts";
 
 let hasher: Awaited<ReturnType<typeof xxhash>> | null = null;
@@ -14,24 +17,226 @@ async function getHasher() {
 	return hasher;
 }
 
-export function write(dir: string, filename: string, data: Buffer) {
+/**
+ * Temporary file name next to file, unique to this process.
+ */
+function tempName(file: string) {
+	return `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+}
+
+/**
+ * Writes a file atomically: the data goes to a temporary file that is renamed into place,
+ * so a crash never leaves a torn file behind.
+ */
+export async function write(dir: string, filename: string, data: Buffer) {
+	const tmp = await writeTemp(dir, filename, data);
+	try {
+		await fs.rename(tmp, join(dir, filename));
+	} catch (err) {
+		await fs.rm(tmp, { force: true });
+		throw err;
+	}
+}
+
+/**
+ * Writes data to a temporary file next to filename, to be moved into place with moveFile()
+ * once its entry is committed. Returns the temporary file.
+ */
+export async function writeTemp(dir: string, filename: string, data: Buffer): Promise<string> {
 	const file = join(dir, filename);
-	fs.mkdirpSync(file.slice(0, file.lastIndexOf("/")));
-	return fs.writeFileSync(file, data);
+	const tmp = tempName(file);
+	try {
+		await inDirectory(file, () => fs.writeFile(tmp, data));
+	} catch (err) {
+		await fs.rm(tmp, { force: true });
+		throw err;
+	}
+	return tmp;
+}
+
+/**
+ * Creates the directory of file and runs fn, creating it again if it was pruned in between
+ * (see purgeEmptyPath()).
+ */
+async function inDirectory<R>(file: string, fn: () => Promise<R>): Promise<R> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			await fs.mkdirp(dirname(file));
+			return await fn();
+		} catch (err) {
+			if (!isNotFound(err) || attempt >= 3) throw err;
+		}
+	}
 }
 
-export function read(dir: string, filename: string) {
-	return fs.readFileSync(join(dir, filename));
+export async function read(dir: string, filename: string) {
+	return fs.readFile(join(dir, filename));
 }
 
-export async function xxhname(buf: string) {
+/**
+ * Runs at most `concurrency` async tasks at a time, queueing the others.
+ */
+export function limiter(concurrency: number) {
+	let active = 0;
+	const queue: Array<() => void> = [];
+	return async function limit<R>(task: () => Promise<R>): Promise<R> {
+		if (active < concurrency) {
+			active++;
+		} else {
+			// the finishing task hands its slot over
+			await new Promise<void>((resolve) => queue.push(resolve));
+		}
+		try {
+			return await task();
+		} finally {
+			const next = queue.shift();
+			if (next) next();
+			else active--;
+		}
+	};
+}
+
+/**
+ * xxhash64 checksum of stored bytes, as hex.
+ */
+export async function xxhchecksum(data: Buffer) {
 	const h = await getHasher();
-	const hash = h.h64(buf);
-	const str = hash.toString(16).padStart(16, "0"); // xxhash64 returns bigint, convert to hex
+	return toHex(h.h64Raw(data));
+}
+
+/**
+ * Pipes a stream into a temporary file in dir, to be moved into place with moveFile()
+ * once its entry is committed. On failure the temporary file is removed.
+ * Returns the temporary file, the number of bytes written, their xxhchecksum(), and the
+ * content-addressed name of the data like xxhcontent().
+ */
+export async function writeStream(
+	dir: string,
+	stream: Readable
+): Promise<{ tmp: string; size: number; checksum: string; contentName: string }> {
+	const h = (await getHasher()).create64();
+	let size = 0;
+	const tmp = tempName(join(dir, ".stream"));
+	await fs.mkdirp(dir);
+	try {
+		const hashing = new Transform({
+			transform(chunk: Buffer, _encoding, callback) {
+				h.update(chunk);
+				size += chunk.length;
+				callback(null, chunk);
+			},
+		});
+		await pipeline(stream, hashing, fs.createWriteStream(tmp));
+		const digest = h.digest();
+		return { tmp, size, checksum: toHex(digest), contentName: "cas/" + hashPath(digest, `-${size}`) };
+	} catch (err) {
+		await fs.rm(tmp, { force: true });
+		throw err;
+	}
+}
+
+/**
+ * Moves a file written by writeStream() or writeTemp() to its final name. Synchronous, so it can
+ * run inside a SQLite transaction.
+ */
+export function moveFile(dir: string, tmp: string, filename: string) {
+	const file = join(dir, filename);
+	for (let attempt = 1; ; attempt++) {
+		try {
+			fs.mkdirpSync(dirname(file));
+			return fs.renameSync(tmp, file);
+		} catch (err) {
+			// the directory was pruned by another process in between
+			if (!isNotFound(err) || attempt >= 3) throw err;
+		}
+	}
+}
+
+/**
+ * Lists the files under dir recursively, as "/"-separated paths relative to dir.
+ * Directories listed in skip are not entered.
+ */
+export function listFiles(dir: string, skip: string[] = []): string[] {
+	const files: string[] = [];
+	const skipped = skip.map((p) => resolve(p));
+	const walk = (sub: string) => {
+		let entries: fs.Dirent[];
+		try {
+			entries = fs.readdirSync(join(dir, sub), { withFileTypes: true });
+		} catch {
+			// Directory might have been deleted, skip it
+			return;
+		}
+		for (const entry of entries) {
+			const name = sub ? `${sub}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) {
+				if (!skipped.includes(resolve(dir, name))) walk(name);
+			} else if (entry.isFile()) {
+				files.push(name);
+			}
+		}
+	};
+	walk("");
+	return files;
+}
+
+/**
+ * Returns true for errors thrown because a file doesn't exist.
+ */
+export function isNotFound(err: unknown): boolean {
+	return (err as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/**
+ * Opens a read stream on a cached file, optionally limited to an inclusive byte range.
+ */
+export function readStream(dir: string, filename: string, start?: number, end?: number): Readable {
+	return fs.createReadStream(join(dir, filename), { start, end });
+}
+
+function toHex(hash: bigint) {
+	return hash.toString(16).padStart(16, "0"); // xxhash64 returns bigint, convert to hex
+}
+
+function hashPath(hash: bigint, suffix = "") {
+	const str = toHex(hash);
 	const p0 = str.slice(0, 2);
 	const p1 = str.slice(2, 4);
 	const pe = str.slice(4);
-	return [p0, p1, pe].join("/") + ".v";
+	return [p0, p1, pe].join("/") + suffix + ".v";
+}
+
+/**
+ * Hashes a cache key to the 64-bit value its file name is derived from.
+ */
+export type KeyHash = (key: string) => bigint | Promise<bigint>;
+
+export async function xxhname(buf: string, hash?: KeyHash) {
+	if (hash) return hashPath(await hash(buf));
+	const h = await getHasher();
+	return hashPath(h.h64(buf));
+}
+
+/**
+ * A file name of its own for one write: "ab/cd/ef.v" becomes "ab/cd/ef.<random>.v".
+ */
+export function uniqueName(filename: string) {
+	return filename.replace(/\.v$/, `.${randomBytes(6).toString("hex")}.v`);
+}
+
+/**
+ * The n-th fallback for a file name taken by another key: "ab/cd/ef.v" becomes "ab/cd/ef.n.v".
+ */
+export function collisionName(filename: string, n: number) {
+	return n === 0 ? filename : filename.replace(/\.v$/, `.${n}.v`);
+}
+
+/**
+ * Content-addressed file name: the xxhash64 of the data plus its length, under "cas/".
+ */
+export async function xxhcontent(data: Buffer) {
+	const h = await getHasher();
+	return "cas/" + hashPath(h.h64Raw(data), `-${data.length}`);
 }
 
 async function purge(dir: string): Promise<boolean> {
@@ -0,0 +1,48 @@
+import { Adapter, AdapterLogger } from "../src"
+import { cleanTestFs, getPathRelativeToCustomTmpDirectory, prepareTestFs, sleep } from "./test-utils"
+
+describe("adapter", () => {
+	beforeAll(() => prepareTestFs())
+	afterAll(() => cleanTestFs())
+
+	const logger = () => {
+		const lines: string[] = []
+		const errors: unknown[] = []
+		const log: AdapterLogger = { info: (message) => lines.push(message), error: (_message, err) => errors.push(err) }
+		return { log, lines, errors }
+	}
+
+	it("purges on an interval within its budget, and reports counts and durations", async () => {
+		const { log, lines } = logger()
+		const adapter = new Adapter(
+			{ dbPath: ":memory:", path: getPathRelativeToCustomTmpDirectory("adapter"), tbd: 1 },
+			{ logger: log, purgeInterval: 0.05, purgeJitter: 0, purgeBudget: 3, purgeBatchSize: 2 },
+		)
+		const cache = await adapter.init()
+		await cache.setMany(["a", "b", "c", "d"].map((key) => ({ key, value: Buffer.from(key), ttl: -10 })))
+
+		await sleep(250)
+		await adapter.shutdown()
+		const purges = lines.filter((line) => line.startsWith("Purged"))
+		expect(purges[0]).toMatch(/^Purged 3 expired entries in \d+\.\dms, more are left for the next run$/)
+		expect(purges[1]).toMatch(/^Purged 1 expired entries in \d+\.\dms$/)
+		expect(cache.db.open).toBe(false)
+	})
+
+	it("waits for a purge in flight before closing the database", async () => {
+		const { log, errors } = logger()
+		const adapter = new Adapter({ dbPath: ":memory:", path: getPathRelativeToCustomTmpDirectory("adapter-shutdown"), tbd: 1 }, { logger: log })
+		const cache = await adapter.init()
+		await cache.set("expired", Buffer.from("old"), -10)
+
+		const purging = adapter.purge()
+		expect(adapter.purge()).toBe(purging)
+		await adapter.shutdown()
+		expect(await purging).toBe(1)
+		expect(cache.db.open).toBe(false)
+
+		// failures are logged rather than thrown
+		expect(await adapter.purge()).toBe(0)
+		expect(errors).toHaveLength(1)
+	})
+})
@@ -0,0 +1,80 @@
+import { readFileSync, writeFileSync } from "fs"
+import { join } from "path"
+import { PassThrough, Readable } from "stream"
+import { main } from "../src/cli"
+import { cleanTestFs, getPathRelativeToCustomTmpDirectory, prepareTestFs } from "./test-utils"
+
+describe("xxstache cli", () => {
+	beforeAll(() => prepareTestFs())
+	afterAll(() => cleanTestFs())
+
+	const path = getPathRelativeToCustomTmpDirectory("cli")
+	const dbPath = join(path, "cache.db")
+
+	const run = async (argv: string[], stdin: Readable = Readable.from([])) => {
+		const stdout = new PassThrough()
+		const stderr = new PassThrough()
+		const out: Buffer[] = []
+		const err: Buffer[] = []
+		stdout.on("data", (chunk) => out.push(chunk))
+		stderr.on("data", (chunk) => err.push(chunk))
+		const code = await main(["--path", path, "--db", dbPath, ...argv], { stdin, stdout, stderr })
+		return { code, stdout: Buffer.concat(out), stderr: Buffer.concat(err).toString() }
+	}
+
+	it("stores, lists, reads and deletes entries", async () => {
+		const file = getPathRelativeToCustomTmpDirectory("cli-input.bin")
+		const large = Buffer.alloc(20 * 1024, 7)
+		writeFileSync(file, large)
+
+		expect((await run(["set", "user:1", file])).code).toBe(0)
+		expect((await run(["set", "user:2", "-", "--ttl", "60"], Readable.from([Buffer.from("two")]))).code).toBe(0)
+		expect((await run(["get", "user:2"])).stdout.toString()).toBe("two")
+		const out = getPathRelativeToCustomTmpDirectory("cli-output.bin")
+		expect((await run(["get", "user:1", "-o", out])).code).toBe(0)
+		expect(readFileSync(out).equals(large)).toBe(true)
+
+		expect((await run(["ls"])).stdout.toString()).toBe("user:1\nuser:2\n")
+		expect(JSON.parse((await run(["ls", "*:2", "--json"])).stdout.toString())).toEqual(["user:2"])
+		expect(JSON.parse((await run(["ls", "--status", "stale", "--json"])).stdout.toString())).toEqual([])
+		expect(JSON.parse((await run(["stats", "--json"])).stdout.toString())).toMatchObject({ entries: 2, diskBytes: 20 * 1024 + 3 })
+
+		expect(JSON.parse((await run(["del", "user:2", "--json"])).stdout.toString())).toEqual({ key: "user:2", deleted: true })
+		const missing = await run(["get", "user:2"])
+		expect(missing.code).toBe(1)
+		expect(missing.stderr).toContain("Key \"user:2\" not found")
+	})
+
+	it("runs maintenance commands", async () => {
+		expect(JSON.parse((await run(["purge", "--json"])).stdout.toString())).toEqual({ purged: 0 })
+		expect(JSON.parse((await run(["verify", "--json"])).stdout.toString())).toMatchObject({ checked: 1, corrupt: [] })
+		const vacuum = JSON.parse((await run(["vacuum", "--json"])).stdout.toString())
+		expect(vacuum.after).toBeLessThanOrEqual(vacuum.before)
+	})
+
+	it("exports and imports archives", async () => {
+		await run(["set", "page:1", "-"], Readable.from([Buffer.from("<html>")]))
+		const exported = (await run(["export", "page:*"])).stdout
+		const [header, entry] = exported.toString().trim().split("\n").map((line) => JSON.parse(line))
+		expect(header).toMatchObject({ format: "xxstache", version: 2 })
+		expect(entry).toMatchObject({ key: "page:1", value: Buffer.from("<html>").toString("base64") })
+
+		const file = getPathRelativeToCustomTmpDirectory("cli-export.ndjson")
+		expect(JSON.parse((await run(["export", "-o", file, "--json"])).stdout.toString())).toEqual({ exported: 2 })
+		await run(["del", "page:1"])
+		expect(JSON.parse((await run(["import", "--json"], Readable.from([exported]))).stdout.toString())).toEqual({ imported: 1, skipped: 0 })
+		expect((await run(["get", "page:1"])).stdout.toString()).toBe("<html>")
+		expect(JSON.parse((await run(["import", file, "--policy", "skip-existing", "--json"])).stdout.toString())).toEqual({ imported: 0, skipped: 2 })
+		expect((await run(["import", file, "--policy", "newest"])).code).toBe(2)
+	})
+
+	it("reports usage errors", async () => {
+		const unknown = await run(["frobnicate"])
+		expect(unknown.code).toBe(2)
+		expect(unknown.stderr).toContain("Unknown command \"frobnicate\"")
+		expect((await run(["get"])).stderr).toContain("get needs a <key> argument")
+		expect((await run(["ls", "--status", "fresh"])).code).toBe(2)
+		expect((await run(["--bogus"])).code).toBe(2)
+		expect((await run(["--help"])).stdout.toString()).toContain("Usage: xxstache")
+	})
+})
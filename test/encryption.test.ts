@@ -0,0 +1,59 @@
+import { randomBytes } from "crypto"
+import { writeFileSync } from "fs"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import { decrypt, decryptFile, encrypt, encryptStream, Keyring } from "../src/encryption"
+import { cleanTestFs, getPathRelativeToCustomTmpDirectory, prepareTestFs } from "./test-utils"
+
+describe("encryption", () => {
+	beforeAll(() => prepareTestFs())
+	afterAll(() => cleanTestFs())
+
+	const key = randomBytes(32)
+
+	it("round-trips and authenticates the cache key", () => {
+		const sealed = encrypt(key, Buffer.from("secret"), "a")
+		expect(sealed.includes("secret")).toBe(false)
+		expect(decrypt(key, sealed, "a").toString()).toBe("secret")
+		expect(() => decrypt(key, sealed, "b")).toThrow()
+		expect(() => decrypt(randomBytes(32), sealed, "a")).toThrow()
+		expect(() => decrypt(key, sealed.subarray(0, 10), "a")).toThrow("truncated")
+	})
+
+	it("streams files in the same format", async () => {
+		const file = getPathRelativeToCustomTmpDirectory("encrypted.v")
+		const data = randomBytes(100 * 1024)
+		const chunks: Buffer[] = []
+		await pipeline(Readable.from([data.subarray(0, 1000), data.subarray(1000)]), encryptStream(key, "k"), async function* (source) {
+			for await (const chunk of source) chunks.push(chunk)
+		})
+		const sealed = Buffer.concat(chunks)
+		expect(decrypt(key, sealed, "k").equals(data)).toBe(true)
+
+		writeFileSync(file, encrypt(key, data, "k"))
+		const out: Buffer[] = []
+		for await (const chunk of await decryptFile(key, file, "k")) out.push(chunk)
+		expect(Buffer.concat(out).equals(data)).toBe(true)
+
+		writeFileSync(file, encrypt(key, Buffer.alloc(0), "k"))
+		for await (const chunk of await decryptFile(key, file, "k")) out.push(chunk)
+		await expect(async () => {
+			for await (const chunk of await decryptFile(key, file, "other")) out.push(chunk)
+		}).rejects.toThrow()
+	})
+
+	it("keyring validates keys and reloads for unknown IDs", async () => {
+		await expect(new Keyring(() => [{ id: "short", key: Buffer.alloc(16) }]).current()).rejects.toThrow("32 bytes")
+		await expect(new Keyring(() => []).current()).rejects.toThrow("no keys")
+
+		let keys = [{ id: "k1", key }]
+		const keyring = new Keyring(() => keys)
+		expect((await keyring.current()).id).toBe("k1")
+		const hash = await keyring.hash("user:1")
+		keys = [{ id: "k2", key: randomBytes(32) }, { id: "k1", key }]
+		expect((await keyring.find("k2")).id).toBe("k2")
+		expect((await keyring.current()).id).toBe("k2")
+		expect(await keyring.hash("user:1")).not.toBe(hash)
+		await expect(keyring.find("k3")).rejects.toThrow("Unknown encryption key \"k3\"")
+	})
+})
@@ -0,0 +1,50 @@
+import { createHash, randomBytes } from "crypto"
+import Cache from "../../src"
+
+// Forked by the multi-process tests: hammers a shared cache with sets, reads, deletes and purges,
+// and reports values that don't belong to their key, and entries found corrupt.
+// Usage: worker.ts <path> <dbPath> <rounds>
+const [path, dbPath, rounds] = process.argv.slice(2)
+
+const digest = (body: Buffer) => createHash("sha256").update(body).digest().subarray(0, 8)
+
+// Every write stores different bytes, which carry their key and a digest of the rest, so readers
+// can tell a torn value, or one decoded with the row of another write
+const value = (n: number) => {
+	// odd keys stay larger than maxInMemorySize once compressed, so they are file-backed
+	const body = Buffer.concat([randomBytes(n % 2 ? 12 * 1024 : 16), Buffer.alloc(n % 2 ? 8 * 1024 : 100, n)])
+	return Buffer.concat([Buffer.from(`k${n}:`), digest(body), body])
+}
+const belongs = (n: number, data: Buffer) => {
+	const prefix = Buffer.from(`k${n}:`)
+	const body = data.subarray(prefix.length + 8)
+	return data.subarray(0, prefix.length).equals(prefix) && data.subarray(prefix.length, prefix.length + 8).equals(digest(body))
+}
+
+async function main() {
+	// verifyOnRead checks every read against the checksum stored with its row
+	const cache = new Cache({ path, dbPath, maxEntries: 20, tbd: 1, compression: "gzip", verifyOnRead: true })
+	let mismatches = 0
+	for (let i = 0; i < Number(rounds); i++) {
+		const n = Math.floor(Math.random() * 6)
+		const key = `k${n}`
+		const op = Math.random()
+		if (op < 0.4) {
+			await cache.set(key, value(n), op < 0.1 ? -5 : 60)
+		} else if (op < 0.8) {
+			const data = await cache.get(key)
+			if (data && !belongs(n, data)) mismatches++
+		} else if (op < 0.95) {
+			await cache.del(key)
+		} else {
+			await cache.purge()
+		}
+	}
+	cache.db.close()
+	process.send!({ mismatches, corrupted: cache.corrupted })
+}
+
+main().catch((err) => {
+	console.error(err)
+	process.exit(1)
+})
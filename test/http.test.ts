@@ -0,0 +1,128 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http"
+import { AddressInfo } from "net"
+import { gzipSync } from "zlib"
+import Cache, { HttpCache } from "../src"
+import { cleanTestFs, getPathRelativeToCustomTmpDirectory, prepareTestFs } from "./test-utils"
+
+describe("http cache", () => {
+	let server: Server
+	let origin: string
+	const requests: IncomingMessage[] = []
+	const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+		"/fresh": (_req, res) => res.writeHead(200, { "cache-control": "max-age=60" }).end("fresh"),
+		"/expires": (_req, res) => res.writeHead(200, { date: new Date().toUTCString(), expires: new Date(Date.now() + 60000).toUTCString() }).end("expires"),
+		"/no-store": (_req, res) => res.writeHead(200, { "cache-control": "no-store" }).end("no-store"),
+		"/cookie": (_req, res) => res.writeHead(200, { "cache-control": "max-age=60", "set-cookie": "a=1" }).end("cookie"),
+		"/gzip": (_req, res) => {
+			const body = gzipSync("zipped")
+			res.writeHead(200, { "cache-control": "max-age=60", "content-encoding": "gzip", "content-length": body.length }).end(body)
+		},
+		"/private": (_req, res) => res.writeHead(200, { "cache-control": "private, max-age=60", "set-cookie": "a=1" }).end("private"),
+		"/etag": (req, res) => {
+			if (req.headers["if-none-match"] === "\"v1\"") res.writeHead(304, { etag: "\"v1\"", "cache-control": "max-age=60" }).end()
+			else res.writeHead(200, { etag: "\"v1\"", "cache-control": "no-cache", "x-origin": "yes" }).end("tagged")
+		},
+		"/modified": (req, res) => {
+			const lastModified = "Wed, 01 Jan 2025 00:00:00 GMT"
+			if (req.headers["if-modified-since"] === lastModified) res.writeHead(304).end()
+			else res.writeHead(200, { "last-modified": lastModified, "cache-control": "max-age=0" }).end("modified")
+		},
+		"/vary": (req, res) => res.writeHead(200, { vary: "Accept-Language", "cache-control": "max-age=60" }).end(`hello ${req.headers["accept-language"]}`),
+	}
+
+	beforeAll(async () => {
+		prepareTestFs()
+		server = createServer((req, res) => {
+			requests.push(req)
+			routes[req.url!](req, res)
+		})
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+		origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+	})
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve))
+		cleanTestFs()
+	})
+
+	const newHttpCache = (name: string, shared?: boolean) => new HttpCache(new Cache({ dbPath: ":memory:", path: getPathRelativeToCustomTmpDirectory(name) }), { shared })
+	const hits = (path: string) => requests.filter((req) => req.url === path).length
+	const get = async (http: HttpCache, path: string, init?: RequestInit) => {
+		const res = await http.fetch(origin + path, init)
+		return [res.headers.get("x-cache"), res.status, await res.text()]
+	}
+
+	it("serves fresh responses from the cache", async () => {
+		const http = newHttpCache("http-fresh")
+		expect(await get(http, "/fresh")).toEqual(["MISS", 200, "fresh"])
+		expect(await get(http, "/fresh")).toEqual(["HIT", 200, "fresh"])
+		expect(hits("/fresh")).toBe(1)
+		expect(await get(http, "/expires")).toEqual(["MISS", 200, "expires"])
+		expect(await get(http, "/expires")).toEqual(["HIT", 200, "expires"])
+
+		// requests can opt out
+		expect(await get(http, "/fresh", { headers: { "cache-control": "no-cache" } })).toEqual(["MISS", 200, "fresh"])
+		expect(await get(http, "/fresh", { method: "POST" })).toEqual([null, 200, "fresh"])
+		expect(hits("/fresh")).toBe(3)
+	})
+
+	it("doesn't store no-store responses, nor private ones in a shared cache", async () => {
+		const http = newHttpCache("http-no-store")
+		await get(http, "/no-store")
+		expect(await get(http, "/no-store")).toEqual(["MISS", 200, "no-store"])
+		await get(http, "/private")
+		expect(await get(http, "/private")).toEqual(["MISS", 200, "private"])
+
+		const own = newHttpCache("http-private", false)
+		await get(own, "/private")
+		const res = await own.fetch(origin + "/private")
+		expect(res.headers.get("x-cache")).toBe("HIT")
+		expect(res.headers.get("set-cookie")).toBe("a=1")
+	})
+
+	it("passes Set-Cookie on to the caller, but doesn't replay it from a shared cache", async () => {
+		const http = newHttpCache("http-cookie")
+		const miss = await http.fetch(origin + "/cookie")
+		expect(miss.headers.get("x-cache")).toBe("MISS")
+		expect(miss.headers.get("set-cookie")).toBe("a=1")
+		const hit = await http.fetch(origin + "/cookie")
+		expect(hit.headers.get("x-cache")).toBe("HIT")
+		expect(hit.headers.get("set-cookie")).toBeNull()
+	})
+
+	it("stores the decoded body of compressed responses without their encoding headers", async () => {
+		const http = newHttpCache("http-gzip")
+		expect(await get(http, "/gzip")).toEqual(["MISS", 200, "zipped"])
+		const hit = await http.fetch(origin + "/gzip")
+		expect(hit.headers.get("x-cache")).toBe("HIT")
+		expect(hit.headers.get("content-encoding")).toBeNull()
+		expect(hit.headers.get("content-length")).toBeNull()
+		expect(await hit.text()).toBe("zipped")
+	})
+
+	it("revalidates stale responses with ETag and Last-Modified", async () => {
+		const http = newHttpCache("http-revalidate")
+		expect(await get(http, "/etag")).toEqual(["MISS", 200, "tagged"])
+		expect(await get(http, "/etag")).toEqual(["REVALIDATED", 200, "tagged"])
+		expect(requests[requests.length - 1].headers["if-none-match"]).toBe("\"v1\"")
+		// the 304 made the entry fresh, and its headers were merged into the stored ones
+		const res = await http.fetch(origin + "/etag")
+		expect(res.headers.get("x-cache")).toBe("HIT")
+		expect(res.headers.get("x-origin")).toBe("yes")
+		expect(hits("/etag")).toBe(2)
+
+		expect(await get(http, "/modified")).toEqual(["MISS", 200, "modified"])
+		expect(await get(http, "/modified")).toEqual(["REVALIDATED", 200, "modified"])
+		expect(await get(http, "/modified")).toEqual(["REVALIDATED", 200, "modified"])
+		expect(hits("/modified")).toBe(3)
+	})
+
+	it("keys responses by the request headers named in Vary", async () => {
+		const http = newHttpCache("http-vary")
+		const lang = (language: string) => ({ headers: { "accept-language": language } })
+		expect(await get(http, "/vary", lang("en"))).toEqual(["MISS", 200, "hello en"])
+		expect(await get(http, "/vary", lang("fr"))).toEqual(["MISS", 200, "hello fr"])
+		expect(await get(http, "/vary", lang("en"))).toEqual(["HIT", 200, "hello en"])
+		expect(await get(http, "/vary", lang("fr"))).toEqual(["HIT", 200, "hello fr"])
+		expect(hits("/vary")).toBe(2)
+	})
+})
@@ -1,14 +1,18 @@
-import { existsSync } from "fs"
+import { cpSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs"
 import { tmpdir } from "os"
 import { DEFAULT_DB_NAME, DEFAULT_DIRECTORY_NAME } from "../src/consts"
-import { join } from "path"
+import { basename, join, relative } from "path"
 import {
 	cleanTestFs,
 	getPathRelativeToCustomTmpDirectory,
 	prepareTestFs,
 	sleep,
 } from "./test-utils"
-import Cache from "../src"
+import { PassThrough, Readable } from "stream"
+import { fork, spawnSync } from "child_process"
+import Cache, { MergePolicy, serializers } from "../src"
+import { randomBytes } from "crypto"
+import { xxhname } from "../src/utils"
 
 describe("disk cache with ttl", () => {
 	beforeAll(() => prepareTestFs())
@@ -130,6 +134,21 @@ describe("disk cache with ttl", () => {
 		expect(await cache.get(key1)).toBeUndefined()
 	})
 
+	it("purge - works through expired entries in batches, up to a limit", async () => {
+		const cache = new Cache({ dbPath: ":memory:", path: getPathRelativeToCustomTmpDirectory("purge-batches"), tbd: 1 })
+		await cache.setMany(["a", "b", "c", "d", "e"].map((key) => ({ key, value: Buffer.from(key), ttl: -10 })))
+		await cache.set("fresh", Buffer.from("fresh"))
+		const counts: number[] = []
+		cache.on("purge", ({ count }) => counts.push(count))
+
+		expect(await cache.purge({ batchSize: 2, limit: 3 })).toBe(3)
+		expect((await cache.stats()).entries).toBe(3)
+		expect(await cache.purge({ batchSize: 2 })).toBe(2)
+		expect(await cache.purge()).toBe(0)
+		expect(counts).toEqual([3, 2, 0])
+		expect(await cache.has("fresh")).toBe("hit")
+	})
+
 	it("should destroy database", async () => {
 		const cache = new Cache({
 			dbPath: getPathRelativeToCustomTmpDirectory("foo"),
@@ -275,4 +294,1218 @@ describe("disk cache with ttl", () => {
 		].filter(s => s === "hit").length
 		expect(oldHits).toBeLessThanOrEqual(2)
 	})
-})
\ No newline at end of file
+
+	it("size eviction - keeps total bytes under maxSize", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("size-total"),
+			maxSize: 50 * 1024,
+		})
+
+		// 15KB values go to disk, 5 of them exceed the 50KB budget
+		for (let i = 0; i < 5; i++) {
+			await cache.set(`big-${i}`, Buffer.alloc(15 * 1024))
+		}
+
+		const total = cache.db.prepare("SELECT SUM(size) as size FROM cache").get() as { size: number }
+		expect(total.size).toBeLessThanOrEqual(50 * 1024)
+		expect(await cache.has("big-0")).toBe("miss")
+		expect(await cache.has("big-1")).toBe("miss")
+		expect(await cache.has("big-4")).toBe("hit")
+	})
+
+	it("size eviction - access time updates on get", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("size-atime"),
+			maxSize: 30,
+		})
+
+		await cache.set("a", Buffer.alloc(10))
+		await sleep(5)
+		await cache.set("b", Buffer.alloc(10))
+		await sleep(5)
+		await cache.set("c", Buffer.alloc(10))
+		await sleep(5)
+		await cache.get("a")
+		await sleep(5)
+		await cache.set("d", Buffer.alloc(10))
+
+		expect(await cache.has("a")).toBe("hit")
+		expect(await cache.has("b")).toBe("miss")
+		expect(await cache.has("c")).toBe("hit")
+		expect(await cache.has("d")).toBe("hit")
+	})
+
+	it("size eviction - separate database and disk budgets", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("size-split"),
+			maxDbSize: 100,
+			maxDiskSize: 40 * 1024,
+		})
+
+		for (let i = 0; i < 5; i++) {
+			await cache.set(`small-${i}`, Buffer.alloc(40))
+			await cache.set(`large-${i}`, Buffer.alloc(15 * 1024))
+		}
+
+		const db = cache.db.prepare("SELECT COUNT(*) as count, SUM(size) as size FROM cache WHERE filename IS NULL").get() as { count: number; size: number }
+		const disk = cache.db.prepare("SELECT COUNT(*) as count, SUM(size) as size FROM cache WHERE filename IS NOT NULL").get() as { count: number; size: number }
+		expect(db.count).toBe(2)
+		expect(db.size).toBeLessThanOrEqual(100)
+		expect(disk.count).toBe(2)
+		expect(disk.size).toBeLessThanOrEqual(40 * 1024)
+		expect(await cache.has("small-4")).toBe("hit")
+		expect(await cache.has("large-4")).toBe("hit")
+	})
+
+	it("tags - invalidate removes tagged entries and their files", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("tags-invalidate"),
+		})
+		await cache.set("fragment:a", Buffer.from("a"), { tags: ["user:42", "team:1"] })
+		await cache.set("fragment:b", Buffer.alloc(15 * 1024), { tags: ["user:42"] })
+		await cache.set("fragment:c", Buffer.from("c"), { tags: ["user:7"] })
+		const filename = (cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("fragment:b") as { filename: string }).filename
+
+		expect(await cache.keysForTag("user:42")).toEqual(["fragment:a", "fragment:b"])
+		expect(await cache.invalidateTag("user:42")).toBe(2)
+		await sleep(50)
+
+		expect(await cache.has("fragment:a")).toBe("miss")
+		expect(await cache.has("fragment:b")).toBe("miss")
+		expect(await cache.has("fragment:c")).toBe("hit")
+		expect(existsSync(join(cache.storePath, filename))).toBe(false)
+		expect(await cache.keysForTag("team:1")).toEqual([])
+	})
+
+	it("tags - invalidate several tags and setMany", async () => {
+		const cache = new Cache({ dbPath: ":memory:" })
+		await cache.setMany([
+			{ key: "a", value: Buffer.from("a"), tags: ["x"] },
+			{ key: "b", value: Buffer.from("b"), tags: ["y"] },
+			{ key: "c", value: Buffer.from("c"), tags: ["z"] },
+		])
+		expect(await cache.invalidateTags(["x", "y"])).toBe(2)
+		expect(await cache.has("c")).toBe("hit")
+	})
+
+	it("tags - set replaces previous tags", async () => {
+		const cache = new Cache({ dbPath: ":memory:" })
+		await cache.set("a", Buffer.from("a"), { tags: ["old"] })
+		await cache.set("a", Buffer.from("b"), { tags: ["new"] })
+		expect(await cache.keysForTag("old")).toEqual([])
+		expect(await cache.keysForTag("new")).toEqual(["a"])
+	})
+
+	it("tags - links are dropped by purge and LRU eviction", async () => {
+		const cache = new Cache({ dbPath: ":memory:", ttl: 0.1, tbd: 0.1, maxEntries: 1 })
+		await cache.set("a", Buffer.from("a"), { ttl: 3600, tags: ["t"] })
+		await cache.set("b", Buffer.from("b"), { ttl: 3600, tags: ["t"] })
+		expect(await cache.keysForTag("t")).toEqual(["b"])
+
+		await cache.set("c", Buffer.from("c"), { tags: ["short"] })
+		expect(await cache.keysForTag("t")).toEqual([])
+		await sleep(500)
+		await cache.purge()
+		expect(await cache.keysForTag("short")).toEqual([])
+		const links = cache.db.prepare("SELECT COUNT(*) as count FROM cache_tags").get() as { count: number }
+		expect(links.count).toBe(0)
+	})
+
+	it("getOrSet - loads once and caches the value", async () => {
+		const cache = new Cache({ dbPath: ":memory:" })
+		let calls = 0
+		const loader = async () => {
+			calls++
+			await sleep(50)
+			return Buffer.from("loaded")
+		}
+
+		const values = await Promise.all([
+			cache.getOrSet("cold", loader),
+			cache.getOrSet("cold", loader),
+			cache.getOrSet("cold", loader),
+		])
+		expect(calls).toBe(1)
+		for (const value of values) expect(value).toEqual(Buffer.from("loaded"))
+
+		expect(await cache.getOrSet("cold", loader)).toEqual(Buffer.from("loaded"))
+		expect(calls).toBe(1)
+		expect(await cache.get("cold")).toEqual(Buffer.from("loaded"))
+	})
+
+	it("getOrSet - reloads stale entries with the given ttl", async () => {
+		const cache = new Cache({ dbPath: ":memory:" })
+		await cache.set("k", Buffer.from("old"), 0.1)
+		await sleep(200)
+		expect(await cache.getOrSet("k", () => Buffer.from("new"), { ttl: 3600 })).toEqual(Buffer.from("new"))
+		expect(await cache.has("k")).toBe("hit")
+	})
+
+	it("getOrSet - loader errors reach every waiter and nothing is cached", async () => {
+		const cache = new Cache({ dbPath: ":memory:" })
+		let calls = 0
+		const loader = async (): Promise<Buffer> => {
+			calls++
+			await sleep(20)
+			throw new Error("boom")
+		}
+
+		const results = await Promise.allSettled([
+			cache.getOrSet("failing", loader),
+			cache.getOrSet("failing", loader),
+		])
+		expect(calls).toBe(1)
+		for (const result of results) {
+			expect(result.status).toBe("rejected")
+			expect((result as PromiseRejectedResult).reason.message).toBe("boom")
+		}
+		expect(await cache.has("failing")).toBe("miss")
+
+		// the failed load is not remembered
+		expect(await cache.getOrSet("failing", () => Buffer.from("ok"))).toEqual(Buffer.from("ok"))
+	})
+
+	it("fetch - loads misses with the registered loader", async () => {
+		const cache = new Cache({ dbPath: ":memory:", loader: (key) => Buffer.from(`value of ${key}`) })
+		expect(await cache.fetch("a")).toEqual({ value: Buffer.from("value of a"), status: "miss" })
+		expect(await cache.fetch("a")).toEqual({ value: Buffer.from("value of a"), status: "hit" })
+	})
+
+	it("fetch - serves stale values and refreshes them in the background", async () => {
+		const cache = new Cache({ dbPath: ":memory:" })
+		await cache.set("k", Buffer.from("old"), 0.1)
+		await sleep(200)
+
+		let calls = 0
+		const loader = async () => {
+			calls++
+			await sleep(20)
+			return Buffer.from("new")
+		}
+		expect(await cache.fetch("k", { loader })).toEqual({ value: Buffer.from("old"), status: "stale" })
+		expect(await cache.fetch("k", { loader })).toEqual({ value: Buffer.from("old"), status: "stale" })
+		await sleep(100)
+
+		expect(calls).toBe(1)
+		expect(await cache.fetch("k", { loader })).toEqual({ value: Buffer.from("new"), status: "hit" })
+	})
+
+	it("fetch - refreshes ahead of expiry", async () => {
+		const cache = new Cache({ dbPath: ":memory:", refreshAhead: 10 })
+		await cache.set("k", Buffer.from("old"), 5)
+
+		const result = await cache.fetch("k", { loader: () => Buffer.from("new"), ttl: 3600 })
+		expect(result).toEqual({ value: Buffer.from("old"), status: "hit" })
+		await sleep(50)
+		expect(await cache.get("k")).toEqual(Buffer.from("new"))
+	})
+
+	it("fetch - failed background refresh keeps the stale value", async () => {
+		const cache = new Cache({ dbPath: ":memory:" })
+		await cache.set("k", Buffer.from("old"), 0.1)
+		await sleep(200)
+
+		const loader = async (): Promise<Buffer> => {
+			throw new Error("upstream down")
+		}
+		expect(await cache.fetch("k", { loader })).toEqual({ value: Buffer.from("old"), status: "stale" })
+		await sleep(50)
+		expect(await cache.get("k")).toEqual(Buffer.from("old"))
+		await expect(cache.fetch("missing", { loader })).rejects.toThrow("upstream down")
+	})
+
+	it("fetch - requires a loader", async () => {
+		const cache = new Cache({ dbPath: ":memory:" })
+		await expect(cache.fetch("k")).rejects.toThrow("loader")
+	})
+
+	it("serializers - typed values through a codec", async () => {
+		const cache = new Cache<{ name: string; tags: string[] }>({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("serializer-json"),
+			serializer: serializers.json(),
+		})
+		const user = { name: "Alice", tags: ["admin"] }
+		await cache.set("user:1", user)
+		expect(await cache.get("user:1")).toEqual(user)
+
+		const large = { name: "x".repeat(20000), tags: [] }
+		await cache.set("user:2", large)
+		expect(await cache.get("user:2")).toEqual(large)
+
+		const codec = cache.db.prepare("SELECT codec FROM cache WHERE key = ?").get("user:1") as { codec: string }
+		expect(codec.codec).toBe("json")
+	})
+
+	it("serializers - required for values other than Buffers", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("serializer-required")
+		// @ts-expect-error a Cache<string> can't fall back to storing raw Buffers
+		new Cache<string>({ dbPath: ":memory:", path }).db.close()
+		// @ts-expect-error nor without any options
+		new Cache<string>().db.close()
+
+		// inferred from the serializer
+		const cache = new Cache({ dbPath: ":memory:", path, serializer: serializers.string })
+		await cache.set("k", "v")
+		const value: string | undefined = await cache.get("k")
+		expect(value).toBe("v")
+		cache.db.close()
+	})
+
+	it("serializers - entries are decoded by the codec that wrote them", async () => {
+		const dbPath = getPathRelativeToCustomTmpDirectory("serializer-switch", "cache.db")
+		const path = getPathRelativeToCustomTmpDirectory("serializer-switch")
+		const raw = new Cache({ dbPath, path })
+		await raw.set("raw", Buffer.from("bytes"))
+		raw.db.close()
+
+		const text = new Cache<string>({ dbPath, path, serializer: serializers.string })
+		await text.set("text", "hello")
+		expect(await text.get("text")).toBe("hello")
+		expect(await text.get("raw")).toEqual(Buffer.from("bytes"))
+		text.db.close()
+
+		const structured = new Cache<Map<string, number>>({ dbPath, path, serializer: serializers.v8() })
+		expect(await structured.get("text")).toBe("hello")
+		expect(await structured.get("raw")).toEqual(Buffer.from("bytes"))
+		structured.db.close()
+	})
+
+	it("compression - values round-trip with every algorithm", async () => {
+		const value = Buffer.from("<p>hello</p>".repeat(500))
+		for (const compression of ["gzip", "deflate", "brotli"] as const) {
+			const cache = new Cache({ dbPath: ":memory:", compression })
+			await cache.set("page", value)
+			expect(await cache.get("page")).toEqual(value)
+
+			const row = cache.db.prepare("SELECT compression, size FROM cache WHERE key = ?").get("page") as { compression: string; size: number }
+			expect(row.compression).toBe(compression)
+			expect(row.size).toBeLessThan(value.length)
+		}
+	})
+
+	it("compression - routing uses the compressed size", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("compression-routing"),
+			compression: "gzip",
+		})
+		// 20KB raw, well under 10KB compressed
+		const value = Buffer.from("A".repeat(20000))
+		await cache.set("page", value)
+		const row = cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("page") as { filename: string | null }
+		expect(row.filename).toBeNull()
+		expect(await cache.get("page")).toEqual(value)
+	})
+
+	it("compression - small values are left alone below the threshold", async () => {
+		const cache = new Cache({ dbPath: ":memory:", compression: "gzip", compressionThreshold: 100 })
+		await cache.set("small", Buffer.from("tiny"))
+		const row = cache.db.prepare("SELECT compression FROM cache WHERE key = ?").get("small") as { compression: string | null }
+		expect(row.compression).toBeNull()
+	})
+
+	it("compression - old uncompressed entries stay readable", async () => {
+		const dbPath = getPathRelativeToCustomTmpDirectory("compression-mixed", "cache.db")
+		const path = getPathRelativeToCustomTmpDirectory("compression-mixed")
+		const value = Buffer.from("x".repeat(30000))
+		const plain = new Cache({ dbPath, path })
+		await plain.set("old", value)
+		plain.db.close()
+
+		const compressed = new Cache({ dbPath, path, compression: "brotli" })
+		await compressed.set("new", value)
+		expect(await compressed.get("old")).toEqual(value)
+		expect(await compressed.get("new")).toEqual(value)
+		compressed.db.close()
+	})
+
+	const readAll = async (stream?: Readable) => {
+		const chunks: Buffer[] = []
+		for await (const chunk of stream!) chunks.push(chunk)
+		return Buffer.concat(chunks)
+	}
+
+	it("streams - setStream / getStream round-trip", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("streams"),
+		})
+		const chunks = Array.from({ length: 10 }, (_, i) => Buffer.alloc(16 * 1024, i))
+		await cache.setStream("blob", Readable.from(chunks), { tags: ["blobs"] })
+
+		const row = cache.db.prepare("SELECT filename, size FROM cache WHERE key = ?").get("blob") as { filename: string; size: number }
+		expect(row.size).toBe(10 * 16 * 1024)
+		expect((await readAll(await cache.getStream("blob"))).equals(Buffer.concat(chunks))).toBe(true)
+		expect((await cache.get("blob"))!.equals(Buffer.concat(chunks))).toBe(true)
+		expect(await cache.keysForTag("blobs")).toEqual(["blob"])
+		expect(await cache.getStream("missing")).toBeUndefined()
+	})
+
+	it("streams - getRange reads inclusive byte ranges", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("streams-range"),
+			compression: "gzip",
+		})
+		const value = Buffer.from(Array.from({ length: 30000 }, (_, i) => i % 251))
+		await cache.setStream("file", Readable.from([value]))
+		await cache.set("compressed", value)
+		await cache.set("small", Buffer.from("0123456789"))
+
+		expect(await readAll(await cache.getRange("file", 100, 199))).toEqual(value.subarray(100, 200))
+		expect(await readAll(await cache.getRange("compressed", 100, 199))).toEqual(value.subarray(100, 200))
+		expect(await readAll(await cache.getRange("small", 2, 4))).toEqual(Buffer.from("234"))
+		expect(await readAll(await cache.getRange("small", 5))).toEqual(Buffer.from("56789"))
+		expect(await readAll(await cache.getStream("compressed"))).toEqual(value)
+	})
+
+	it("streams - an aborted stream leaves no file and no row", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("streams-abort")
+		const cache = new Cache({ dbPath: ":memory:", path })
+		await cache.set("kept", Buffer.alloc(20000, 1))
+
+		const failing = new Readable({
+			read() {
+				this.push(Buffer.alloc(1024))
+				this.destroy(new Error("connection reset"))
+			},
+		})
+		await expect(cache.setStream("broken", failing)).rejects.toThrow("connection reset")
+		expect(await cache.has("broken")).toBe("miss")
+
+		const files = (readdirSync(path, { recursive: true }) as string[]).filter((f) => f.endsWith(".tmp"))
+		expect(files).toEqual([])
+
+		// overwriting an existing key keeps the previous value when the stream fails
+		const failingAgain = new Readable({
+			read() {
+				this.destroy(new Error("connection reset"))
+			},
+		})
+		await expect(cache.setStream("kept", failingAgain)).rejects.toThrow("connection reset")
+		expect(await cache.get("kept")).toEqual(Buffer.alloc(20000, 1))
+	})
+
+	it("dedupe - identical values share one file until the last reference is gone", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("dedupe"),
+			dedupe: true,
+		})
+		const artifact = Buffer.alloc(40 * 1024, 7)
+		await cache.set("a", artifact)
+		await cache.setMany([{ key: "b", value: artifact }, { key: "c", value: artifact }])
+		await cache.setStream("d", Readable.from([artifact]))
+
+		const rows = cache.db.prepare("SELECT DISTINCT filename FROM cache").all() as Array<{ filename: string }>
+		expect(rows).toHaveLength(1)
+		const file = join(cache.storePath, rows[0].filename)
+		expect(await cache.dedupeStats()).toEqual({
+			files: 1,
+			references: 4,
+			storedBytes: artifact.length,
+			logicalBytes: 4 * artifact.length,
+			savedBytes: 3 * artifact.length,
+		})
+
+		await cache.del("a")
+		await cache.set("b", Buffer.from("small now"))
+		await cache.set("c", Buffer.alloc(40 * 1024, 8))
+		expect(existsSync(file)).toBe(true)
+		expect((await cache.get("d"))!.equals(artifact)).toBe(true)
+
+		await cache.del("d")
+		expect(existsSync(file)).toBe(false)
+		expect((await cache.get("c"))!.equals(Buffer.alloc(40 * 1024, 8))).toBe(true)
+	})
+
+	it("dedupe - purge and LRU eviction keep shared files", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("dedupe-purge"),
+			dedupe: true,
+			tbd: 0.1,
+			maxEntries: 2,
+		})
+		const artifact = Buffer.alloc(20 * 1024, 1)
+		await cache.set("short", artifact, 0.1)
+		await cache.set("long", artifact, 3600)
+		const { filename } = cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("long") as { filename: string }
+
+		await sleep(300)
+		expect(await cache.purge()).toBe(1)
+		expect(existsSync(join(cache.storePath, filename))).toBe(true)
+
+		await cache.set("x", Buffer.from("x"))
+		await cache.set("y", Buffer.from("y"))
+		expect(await cache.has("long")).toBe("miss")
+		expect(existsSync(join(cache.storePath, filename))).toBe(false)
+	})
+
+	it("replacing a file-backed value with a small one removes the old file", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("replace-file"),
+		})
+		await cache.set("k", Buffer.alloc(20 * 1024))
+		const { filename } = cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("k") as { filename: string }
+		expect(existsSync(join(cache.storePath, filename))).toBe(true)
+
+		await cache.set("k", Buffer.from("small"))
+		expect(existsSync(join(cache.storePath, filename))).toBe(false)
+	})
+
+	it("rewriting a file-backed value writes a new file and removes the old one", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("rewrite-file"),
+		})
+		const getFilename = () => (cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("k") as { filename: string }).filename
+		await cache.set("k", Buffer.alloc(20 * 1024, 1))
+		const before = getFilename()
+
+		await cache.set("k", Buffer.alloc(20 * 1024, 2))
+		expect(getFilename()).not.toBe(before)
+		expect(existsSync(join(cache.storePath, before))).toBe(false)
+		expect((await cache.get("k"))!.equals(Buffer.alloc(20 * 1024, 2))).toBe(true)
+	})
+
+	it("checksums - corrupt values are a miss with verifyOnRead", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("checksum-read"),
+			verifyOnRead: true,
+		})
+		await cache.set("blob", Buffer.from("hello"))
+		await cache.set("file", Buffer.alloc(20 * 1024, 1))
+		await cache.set("intact", Buffer.from("fine"))
+
+		cache.db.prepare("UPDATE cache SET value = ? WHERE key = ?").run(Buffer.from("hellp"), "blob")
+		const { filename } = cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("file") as { filename: string }
+		writeFileSync(join(cache.storePath, filename), Buffer.alloc(10 * 1024, 1))
+
+		expect(await cache.get("blob")).toBeUndefined()
+		expect(await cache.get("file", Buffer.from("default"))).toEqual(Buffer.from("default"))
+		expect(await cache.get("intact")).toEqual(Buffer.from("fine"))
+		expect(cache.corrupted).toBe(2)
+		expect(await cache.has("blob")).toBe("miss")
+		expect(await cache.has("file")).toBe("miss")
+		expect(existsSync(join(cache.storePath, filename))).toBe(false)
+	})
+
+	it("checksums - corrupt values are moved to the quarantine directory", async () => {
+		const quarantinePath = getPathRelativeToCustomTmpDirectory("checksum-quarantine")
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("checksum-quarantine-files"),
+			verifyOnRead: true,
+			quarantinePath,
+		})
+		await cache.set("file", Buffer.alloc(20 * 1024, 1))
+		const { filename } = cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("file") as { filename: string }
+		const flipped = Buffer.alloc(20 * 1024, 1)
+		flipped[100] = 2
+		writeFileSync(join(cache.storePath, filename), flipped)
+
+		await cache.set("secret-key", Buffer.from("hello"))
+		cache.db.prepare("UPDATE cache SET value = ? WHERE key = ?").run(Buffer.from("hellp"), "secret-key")
+
+		expect(await cache.get("file")).toBeUndefined()
+		expect(readFileSync(join(quarantinePath, filename)).equals(flipped)).toBe(true)
+		expect(await cache.get("secret-key")).toBeUndefined()
+		// named like the files of the cache rather than after the key, which is recorded in the database
+		const [name] = readdirSync(join(quarantinePath, "db"), { recursive: true, withFileTypes: true }).filter((entry) => entry.isFile())
+		expect(name.name).not.toContain(Buffer.from("secret-key").toString("hex"))
+		const quarantined = cache.db.prepare("SELECT filename, key FROM cache_quarantine ORDER BY key").all() as { filename: string, key: string }[]
+		expect(quarantined).toEqual([{ filename, key: "file" }, { filename: expect.stringMatching(/^db\//), key: "secret-key" }])
+		expect(readFileSync(join(quarantinePath, quarantined[1].filename)).toString()).toBe("hellp")
+	})
+
+	it("checksums - an entry rewritten while a corrupt read was checked is kept", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("checksum-rewritten"),
+			verifyOnRead: true,
+		})
+		await cache.set("file", Buffer.alloc(20 * 1024, 1))
+		await cache.set("other", Buffer.alloc(20 * 1024, 2))
+		const { filename } = cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("file") as { filename: string }
+		writeFileSync(join(cache.storePath, filename), Buffer.alloc(20 * 1024, 3))
+		// Stands in for another process rewriting the entry between the read and the removal
+		cache.once("corrupt", () => {
+			cache.db
+				.prepare("UPDATE cache SET (value, filename, checksum, size) = (SELECT value, filename, checksum, size FROM cache WHERE key = 'other') WHERE key = 'file'")
+				.run()
+		})
+
+		expect(await cache.get("file")).toBeUndefined()
+		expect(cache.corrupted).toBe(1)
+		expect((await cache.get("file"))!.equals(Buffer.alloc(20 * 1024, 2))).toBe(true)
+		expect(existsSync(join(cache.storePath, filename))).toBe(false)
+	})
+
+	it("checksums - verify reports corrupt and missing entries", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("checksum-verify"),
+		})
+		await cache.set("blob", Buffer.from("hello"))
+		await cache.set("file", Buffer.alloc(20 * 1024, 1))
+		await cache.setStream("stream", Readable.from([Buffer.from("streamed")]))
+		await cache.set("ok", Buffer.from("fine"))
+		await cache.set("legacy", Buffer.from("old"))
+
+		cache.db.prepare("UPDATE cache SET value = ? WHERE key = ?").run(Buffer.from("hellp"), "blob")
+		cache.db.prepare("UPDATE cache SET checksum = NULL WHERE key = ?").run("legacy")
+		const { filename } = cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("file") as { filename: string }
+		rmSync(join(cache.storePath, filename))
+
+		expect(await cache.verify()).toEqual({
+			checked: 3,
+			unchecked: 1,
+			corrupt: [{ key: "blob", reason: "checksum" }, { key: "file", reason: "missing" }],
+		})
+		expect(await cache.has("blob")).toBe("hit")
+
+		await cache.verify({ repair: true })
+		expect(await cache.has("blob")).toBe("miss")
+		expect(await cache.has("file")).toBe("miss")
+		expect((await cache.verify()).corrupt).toEqual([])
+	})
+
+	it("collisions - keys with the same hash get distinct files", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("collisions"),
+			hash: () => 1n,
+		})
+		const a = Buffer.alloc(20 * 1024, 1)
+		const b = Buffer.alloc(20 * 1024, 2)
+		await cache.set("a", a)
+		await cache.set("b", b)
+		await cache.setStream("c", Readable.from([Buffer.alloc(20 * 1024, 3)]))
+		await cache.set("a", Buffer.alloc(20 * 1024, 4))
+
+		const filenames = cache.db.prepare("SELECT filename FROM cache ORDER BY key").all() as { filename: string }[]
+		expect(new Set(filenames.map(({ filename }) => filename)).size).toBe(3)
+		expect((await cache.get("b"))!.equals(b)).toBe(true)
+		expect((await cache.get("c"))![0]).toBe(3)
+
+		await cache.del("a")
+		expect((await cache.get("b"))!.equals(b)).toBe(true)
+		expect((await cache.get("c"))![0]).toBe(3)
+		expect((await cache.verify()).corrupt).toEqual([])
+	})
+
+	it("reconcile - drops rows without files and removes orphan and temporary files", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("reconcile")
+		const cache = new Cache({ dbPath: ":memory:", path })
+		await cache.set("kept", Buffer.alloc(20 * 1024, 1))
+		await cache.set("lost", Buffer.alloc(20 * 1024, 2))
+		await cache.set("small", Buffer.from("blob"))
+		const { filename } = cache.db.prepare("SELECT filename FROM cache WHERE key = ?").get("lost") as { filename: string }
+		rmSync(join(cache.storePath, filename))
+		mkdirSync(join(cache.storePath, "ff/ff"), { recursive: true })
+		writeFileSync(join(cache.storePath, "ff/ff/orphan.v"), "orphan")
+		writeFileSync(join(cache.storePath, "ff/ff/orphan.v.1.abc.tmp"), "torn")
+
+		expect(await cache.reconcile()).toEqual({ orphans: [], temporary: [], missing: ["lost"] })
+		expect(await cache.has("lost")).toBe("miss")
+
+		const report = await cache.reconcile({ minAge: 0 })
+		const store = relative(path, cache.storePath)
+		expect(report).toEqual({ orphans: [join(store, "ff/ff/orphan.v")], temporary: [join(store, "ff/ff/orphan.v.1.abc.tmp")], missing: [] })
+		expect(existsSync(join(cache.storePath, "ff"))).toBe(false)
+		expect((await cache.get("kept"))![0]).toBe(1)
+		expect((await cache.get("small"))!.toString()).toBe("blob")
+	})
+
+	it("reconcile - get treats a missing file as a miss", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("reconcile-get")
+		const cache = new Cache({ dbPath: ":memory:", path })
+		await cache.set("file", Buffer.alloc(20 * 1024, 1))
+		await cache.set("stream", Buffer.alloc(20 * 1024, 2))
+		for (const { filename } of cache.db.prepare("SELECT filename FROM cache").all() as { filename: string }[]) {
+			rmSync(join(cache.storePath, filename))
+		}
+
+		expect(await cache.get("file", Buffer.from("default"))).toEqual(Buffer.from("default"))
+		expect(await cache.getStream("stream")).toBeUndefined()
+		expect(await cache.has("file")).toBe("miss")
+		expect(await cache.has("stream")).toBe("miss")
+	})
+
+	it("reconcile - runs at startup", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("reconcile-start")
+		const dbPath = join(path, "cache.db")
+		const first = new Cache({ dbPath, path })
+		await first.set("lost", Buffer.alloc(20 * 1024, 1))
+		const { filename } = first.db.prepare("SELECT filename FROM cache WHERE key = ?").get("lost") as { filename: string }
+		rmSync(join(first.storePath, filename))
+		first.db.close()
+
+		const second = new Cache({ dbPath, path, reconcileOnStart: true })
+		expect(second.db.prepare("SELECT COUNT(*) as count FROM cache").get()).toEqual({ count: 0 })
+		second.db.close()
+	})
+
+	it("reconcile - leaves the files of other databases on the same path alone", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("reconcile-shared")
+		const a = new Cache({ dbPath: join(path, "a.db"), path })
+		const b = new Cache({ dbPath: join(path, "b.db"), path })
+		await a.set("a", Buffer.alloc(20 * 1024, 1))
+		await b.set("b", Buffer.alloc(20 * 1024, 2))
+		expect(a.storePath).not.toBe(b.storePath)
+
+		expect(await a.reconcile({ minAge: 0 })).toEqual({ orphans: [], temporary: [], missing: [] })
+		expect(await b.reconcile({ minAge: 0 })).toEqual({ orphans: [], temporary: [], missing: [] })
+		expect((await a.get("a"))![0]).toBe(1)
+		expect((await b.get("b"))![0]).toBe(2)
+
+		// the store is kept across restarts
+		const { storePath: store } = b
+		b.db.close()
+		const reopened = new Cache({ dbPath: join(path, "b.db"), path })
+		expect(reopened.storePath).toBe(store)
+		expect((await reopened.get("b"))![0]).toBe(2)
+		a.db.close()
+		reopened.db.close()
+	})
+
+	it("reconcile - reclaims the stores of in-memory databases that were closed or whose process exited", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("reconcile-dead")
+		const live = new Cache({ dbPath: ":memory:", path })
+		await live.set("live", Buffer.alloc(64 * 1024, 1))
+		const closed = new Cache({ dbPath: ":memory:", path })
+		await closed.set("closed", Buffer.alloc(64 * 1024, 2))
+		// what a process that died without closing its cache leaves behind
+		const crashed = closed.storePath.replace(`-${process.pid}-`, `-${spawnSync(process.execPath, ["-e", ""]).pid}-`)
+		cpSync(closed.storePath, crashed, { recursive: true })
+		await closed.close()
+		expect(existsSync(closed.storePath)).toBe(false)
+
+		const cache = new Cache({ dbPath: ":memory:", path })
+		const { orphans } = await cache.reconcile({ minAge: 0 })
+		expect(orphans).toHaveLength(1)
+		expect(orphans[0].startsWith(basename(crashed))).toBe(true)
+		expect(existsSync(crashed)).toBe(false)
+		expect((await live.get("live"))![0]).toBe(1)
+		await live.close()
+		await cache.close()
+	})
+
+	it("keys - iterates with prefix, pattern, status and storage filters", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("keys"),
+		})
+		await cache.set("user:1", Buffer.from("one"))
+		await cache.set("user:2", Buffer.alloc(20 * 1024, 2))
+		await cache.set("user:3", Buffer.from("three"), -10)
+		await cache.set("page:/a.html", Buffer.from("a"))
+		await cache.set("page:/b.css", Buffer.from("b"))
+		const collect = async <V>(it: AsyncIterable<V>) => {
+			const rv: V[] = []
+			for await (const v of it) rv.push(v)
+			return rv
+		}
+
+		expect(await collect(cache.keys())).toEqual(["page:/a.html", "page:/b.css", "user:1", "user:2", "user:3"])
+		expect(await collect(cache.keys({ prefix: "user:", batchSize: 1 }))).toEqual(["user:1", "user:2", "user:3"])
+		expect(await collect(cache.keys({ pattern: "page:*.html" }))).toEqual(["page:/a.html"])
+		expect(await collect(cache.keys({ prefix: "user:", status: "stale" }))).toEqual(["user:3"])
+		expect(await collect(cache.keys({ prefix: "user:", status: "hit", storage: "db" }))).toEqual(["user:1"])
+		expect(await collect(cache.keys({ storage: "disk" }))).toEqual(["user:2"])
+
+		const entries = await collect(cache.entries({ prefix: "page:" }))
+		expect(entries.map(([key, value]) => [key, value.toString()])).toEqual([["page:/a.html", "a"], ["page:/b.css", "b"]])
+		const values = await collect(cache.values({ storage: "disk" }))
+		expect(values[0].equals(Buffer.alloc(20 * 1024, 2))).toBe(true)
+	})
+
+	it("keys - deleteMatching removes rows and files in batches", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("delete-matching")
+		const cache = new Cache({ dbPath: ":memory:", path })
+		for (let i = 0; i < 5; i++) await cache.set(`session:${i}`, Buffer.alloc(20 * 1024, i))
+		await cache.set("user:1", Buffer.alloc(20 * 1024, 9))
+
+		expect(await cache.deleteMatching({ pattern: "session:*", batchSize: 2 })).toBe(5)
+		expect(await cache.has("session:0")).toBe("miss")
+		expect(await cache.has("user:1")).toBe("hit")
+		expect((await cache.dedupeStats()).files).toBe(1)
+		expect(await cache.deleteMatching("nothing*")).toBe(0)
+		expect(await cache.deleteMatching("user:?")).toBe(1)
+		expect((await cache.reconcile({ minAge: 0 })).orphans).toEqual([])
+	})
+
+	it("keys - deleteMatching deletes each batch in one transaction", async () => {
+		const cache = new Cache({ dbPath: ":memory:", path: getPathRelativeToCustomTmpDirectory("delete-matching-tx") })
+		for (let i = 0; i < 5; i++) await cache.set(`session:${i}`, Buffer.from(String(i)))
+		cache.db.exec("CREATE TRIGGER keep BEFORE DELETE ON cache WHEN old.key = 'session:3' BEGIN SELECT RAISE(ABORT, 'kept'); END")
+
+		await expect(cache.deleteMatching({ prefix: "session:", batchSize: 2 })).rejects.toThrow("kept")
+		// the first batch is gone, the second one was rolled back as a whole
+		expect(await cache.has("session:1")).toBe("miss")
+		expect(await cache.has("session:2")).toBe("hit")
+		expect(await cache.has("session:4")).toBe("hit")
+	})
+
+	it("metrics - counts reads, writes, evictions and purges per prefix", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("metrics"),
+			maxEntries: 3,
+			metricsDelimiter: ":",
+		})
+		await cache.set("user:1", Buffer.from("one"))
+		await cache.set("user:2", Buffer.alloc(20 * 1024, 2))
+		await cache.set("page:1", Buffer.from("page"), -10)
+		await cache.get("user:1")
+		await cache.get("page:1")
+		await cache.get("user:3")
+		await cache.getOrSet("page:2", () => Buffer.from("loaded"))
+		await cache.del("user:2")
+		await cache.del("user:2")
+		await cache.set("page:3", Buffer.from("three"))
+		await cache.set("page:4", Buffer.from("four"))
+
+		const stats = await cache.stats()
+		expect(stats).toMatchObject({ hits: 1, misses: 2, stale: 1, sets: 6, deletes: 1, evictions: 1, purged: 0 })
+		expect(stats.entries).toBe(4)
+		expect(stats.dbBytes).toBe(4 + 6 + 5 + 4)
+		expect(stats.prefixes!.user).toMatchObject({ hits: 1, misses: 1, sets: 2, deletes: 1, evictions: 1, entries: 0 })
+		expect(stats.prefixes!.page).toMatchObject({ stale: 1, misses: 1, sets: 4, entries: 4 })
+
+		cache.tbd = 0
+		expect(await cache.purge()).toBe(1)
+		expect((await cache.stats()).purged).toBe(1)
+
+		const text = await cache.toPrometheus()
+		expect(text).toContain("xxstache_purged_total{prefix=\"page\"} 1\n")
+		expect(text).toContain("xxstache_entries{prefix=\"page\"} 3\n")
+	})
+
+	it("events - emits lifecycle events", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("events"),
+			maxEntries: 2,
+		})
+		const events: Array<[string, unknown]> = []
+		for (const name of ["set", "hit", "miss", "delete", "evict", "purge"] as const) {
+			cache.on(name, (event) => events.push([name, event]))
+		}
+
+		await cache.set("a", Buffer.from("a"))
+		await cache.set("b", Buffer.alloc(20 * 1024), -10)
+		await cache.get("a")
+		await cache.get("b")
+		await cache.get("c")
+		await cache.set("c", Buffer.from("c"))
+		await cache.set("d", Buffer.from("d"))
+		await cache.del("c")
+		cache.tbd = 0
+		await cache.purge()
+
+		expect(events).toEqual([
+			["set", { key: "a", size: 1, storage: "db" }],
+			["set", { key: "b", size: 20 * 1024, storage: "disk" }],
+			["hit", { key: "a", stale: false }],
+			["hit", { key: "b", stale: true }],
+			["miss", { key: "c" }],
+			["set", { key: "c", size: 1, storage: "db" }],
+			["set", { key: "d", size: 1, storage: "db" }],
+			["evict", { key: "a", reason: "lru" }],
+			["delete", { key: "c" }],
+			["evict", { key: "b", reason: "expired" }],
+			["purge", { count: 1 }],
+		])
+	})
+
+	it("events - listener errors never break cache operations", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("events-errors"),
+		})
+		const seen: string[] = []
+		cache.on("set", () => {
+			throw new Error("listener failed")
+		})
+		cache.on("set", async () => {
+			throw new Error("async listener failed")
+		})
+		cache.once("set", ({ key }) => seen.push(key))
+
+		await cache.set("a", Buffer.from("a"))
+		await cache.set("b", Buffer.from("b"))
+		expect(seen).toEqual(["a"])
+		expect((await cache.get("b"))!.toString()).toBe("b")
+	})
+
+	it("multi-process - only the lease holder purges", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("lease")
+		const cache = new Cache({ dbPath: ":memory:", path, tbd: 1 })
+		await cache.set("expired", Buffer.from("old"), -10)
+		const future = new Date().getTime() / 1000 + 60
+		cache.db.prepare("INSERT INTO cache_leases (name, owner, expires) VALUES ('purge', 'other', ?)").run(future)
+
+		expect(await cache.purge()).toBe(0)
+		expect(await cache.has("expired")).toBe("stale")
+
+		cache.db.prepare("UPDATE cache_leases SET expires = 0").run()
+		expect(await cache.purge()).toBe(1)
+		expect(cache.db.prepare("SELECT COUNT(*) as count FROM cache_leases").get()).toEqual({ count: 0 })
+	})
+
+	it("multi-process - forked workers share one cache", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("multi-process")
+		const dbPath = join(path, "cache.db")
+		const run = () => new Promise<{ code: number | null; message?: unknown }>((resolve) => {
+			const child = fork(join(__dirname, "fixtures", "worker.ts"), [path, dbPath, "600"], {
+				execArgv: ["-r", "ts-node/register/transpile-only"],
+			})
+			let message: unknown
+			child.on("message", (m) => message = m)
+			child.on("exit", (code) => resolve({ code, message }))
+		})
+
+		const results = await Promise.all([run(), run(), run()])
+		expect(results).toEqual(Array(3).fill({ code: 0, message: { mismatches: 0, corrupted: 0 } }))
+
+		const cache = new Cache({ path, dbPath })
+		expect((await cache.verify()).corrupt).toEqual([])
+		expect(await cache.reconcile({ minAge: 0 })).toEqual({ orphans: [], temporary: [], missing: [] })
+		cache.db.close()
+	}, 120000)
+
+	it("io - writes files through temporary files without leftovers", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("async-io")
+		const cache = new Cache({ dbPath: ":memory:", path, ioConcurrency: 2 })
+		const entries = Array.from({ length: 10 }, (_, i) => ({ key: `k${i}`, value: Buffer.alloc(20 * 1024, i) }))
+		await cache.setMany(entries)
+		await cache.setMany(entries.slice(0, 5))
+
+		expect(await cache.reconcile({ minAge: 0 })).toEqual({ orphans: [], temporary: [], missing: [] })
+		expect(readdirSync(path, { recursive: true }).filter((f) => String(f).endsWith(".v")).length).toBe(10)
+		const values = await Promise.all(entries.map(({ key }) => cache.get(key)))
+		expect(values.every((value, i) => value!.equals(entries[i].value))).toBe(true)
+	})
+
+	it("memory - serves hot keys from memory and stays consistent with writes", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("memory"),
+			memory: { maxEntries: 10 },
+			maxEntries: 2,
+		})
+		await cache.set("a", Buffer.from("a"))
+		// served from memory, without reading the row
+		cache.db.prepare("UPDATE cache SET value = ? WHERE key = ?").run(Buffer.from("changed"), "a")
+		expect((await cache.get("a"))!.toString()).toBe("a")
+
+		await cache.set("a", Buffer.from("new"))
+		expect((await cache.get("a"))!.toString()).toBe("new")
+		await cache.del("a")
+		expect(await cache.get("a")).toBeUndefined()
+
+		await cache.set("b", Buffer.from("b"))
+		await cache.set("c", Buffer.from("c"))
+		await cache.set("d", Buffer.from("d"))
+		expect(await cache.get("b")).toBeUndefined()
+
+		await cache.set("expired", Buffer.from("old"), -10)
+		expect((await cache.get("expired"))!.toString()).toBe("old")
+		expect((await cache.stats()).memory).toEqual({ entries: 2, bytes: 2, hits: 2, misses: 3 })
+	})
+
+	it("memory - caches values read from SQLite", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("memory-read")
+		const dbPath = join(path, "cache.db")
+		const writer = new Cache({ dbPath, path })
+		await writer.set("file", Buffer.alloc(20 * 1024, 1))
+
+		const reader = new Cache({ dbPath, path, memory: {} })
+		expect((await reader.get("file"))![0]).toBe(1)
+		await writer.del("file")
+		expect((await reader.get("file"))![0]).toBe(1)
+		expect((await reader.stats()).memory).toMatchObject({ hits: 1, misses: 1 })
+		writer.db.close()
+		reader.db.close()
+	})
+
+	it("memory - charges maxSize with decoded sizes, not compressed ones", async () => {
+		const cache = new Cache({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("memory-size"),
+			compression: "gzip",
+			memory: { maxSize: 4096 },
+		})
+		await cache.set("small", Buffer.alloc(3000, 1))
+		await cache.set("large", Buffer.alloc(5000, 1))
+		// both are stored in a few dozen bytes
+		expect((cache.db.prepare("SELECT MAX(size) as size FROM cache").get() as { size: number }).size).toBeLessThan(100)
+		expect((await cache.stats()).memory).toMatchObject({ entries: 1, bytes: 3000 })
+
+		cache.memory!.clear()
+		expect(await cache.get("large")).toEqual(Buffer.alloc(5000, 1))
+		expect(await cache.get("small")).toEqual(Buffer.alloc(3000, 1))
+		expect((await cache.stats()).memory).toMatchObject({ entries: 1, bytes: 3000 })
+		cache.db.close()
+	})
+
+	it("encryption - stores values and file names encrypted", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("encrypted")
+		const keys = [{ id: "k1", key: randomBytes(32) }]
+		const cache = new Cache<string>({ dbPath: ":memory:", path, serializer: serializers.string, encryption: { keys: () => keys } })
+		const large = "secret ".repeat(5000)
+		await cache.set("small", "secret")
+		await cache.set("large", large)
+		await cache.setStream("stream", Readable.from([Buffer.from(large)]))
+
+		expect(await cache.get("small")).toBe("secret")
+		expect(await cache.get("large")).toBe(large)
+		expect((await readAll(await cache.getStream("stream"))).toString()).toBe(large)
+		expect((await readAll(await cache.getRange("large", 7, 12))).toString()).toBe("secret")
+
+		const rows = cache.db.prepare("SELECT key, value, filename, key_id as keyId FROM cache ORDER BY key").all() as Array<{ key: string, value: Buffer | null, filename: string | null, keyId: string }>
+		expect(rows.map((row) => row.keyId)).toEqual(["k1", "k1", "k1"])
+		expect(rows[1].value!.includes("secret")).toBe(false)
+		for (const { key, filename } of [rows[0], rows[2]]) {
+			expect(filename).not.toBe(await xxhname(key))
+			expect(readFileSync(join(cache.storePath, filename!)).includes("secret")).toBe(false)
+		}
+		expect((await cache.verify()).corrupt).toEqual([])
+
+		// bytes copied from another entry don't decrypt
+		await cache.set("other", "other")
+		cache.db.prepare("UPDATE cache SET (value, checksum) = (SELECT value, checksum FROM cache WHERE key = 'small') WHERE key = 'other'").run()
+		await expect(cache.get("other")).rejects.toThrow()
+	})
+
+	it("encryption - re-encrypts entries under older keys lazily and in bulk", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("rotation")
+		const dbPath = join(path, "cache.db")
+		const k1 = { id: "k1", key: randomBytes(32) }
+		const k2 = { id: "k2", key: randomBytes(32) }
+		const keyIds = (cache: Cache) => cache.db.prepare("SELECT key, key_id as keyId FROM cache ORDER BY key").all()
+
+		const plain = new Cache({ dbPath, path })
+		await plain.set("plain", Buffer.from("p"))
+		const first = new Cache({ dbPath, path, encryption: { keys: () => [k1] } })
+		await first.set("a", Buffer.from("a"), { ttl: 100, tags: ["t"] })
+		await first.set("b", Buffer.alloc(20 * 1024, 2))
+		await expect(plain.get("a")).rejects.toThrow("no encryption keys are configured")
+
+		const rotated = new Cache({ dbPath, path, encryption: { keys: () => [k2, k1] } })
+		expect((await rotated.get("a"))!.toString()).toBe("a")
+		expect(keyIds(rotated)).toEqual([{ key: "a", keyId: "k2" }, { key: "b", keyId: "k1" }, { key: "plain", keyId: null }])
+		expect(await rotated.keysForTag("t")).toEqual(["a"])
+		expect(await rotated.reencrypt()).toBe(2)
+		expect(await rotated.reencrypt()).toBe(0)
+		expect(keyIds(rotated)).toEqual([{ key: "a", keyId: "k2" }, { key: "b", keyId: "k2" }, { key: "plain", keyId: "k2" }])
+
+		const only = new Cache({ dbPath, path, encryption: { keys: () => [k2] } })
+		expect((await only.get("b"))![0]).toBe(2)
+		expect((await only.get("plain"))!.toString()).toBe("p")
+		expect((await only.reconcile({ minAge: 0 })).orphans).toEqual([])
+		await expect(first.get("b")).rejects.toThrow("Unknown encryption key \"k2\"")
+		for (const cache of [plain, first, rotated, only]) cache.db.close()
+	})
+
+	it("export / import - moves entries between caches with their TTLs and tags", async () => {
+		const source = new Cache<string>({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("export-source"),
+			serializer: serializers.string,
+			compression: "gzip",
+		})
+		const large = "x".repeat(20 * 1024)
+		await source.set("small", "s", { ttl: 100, tags: ["t1", "t2"] })
+		await source.set("large", large, 200)
+		await source.set("stale", "old", -10)
+
+		const chunks: Buffer[] = []
+		const archive = new PassThrough().on("data", (chunk) => chunks.push(chunk))
+		expect(await source.export(archive)).toBe(3)
+		const lines = Buffer.concat(chunks).toString().trim().split("\n").map((line) => JSON.parse(line))
+		expect(lines[0]).toMatchObject({ format: "xxstache", version: 2 })
+		expect(lines.find((line) => line.key === "large").value).toBe(Buffer.from(large).toString("base64"))
+
+		const target = new Cache<string>({
+			dbPath: ":memory:",
+			path: getPathRelativeToCustomTmpDirectory("export-target"),
+			serializer: serializers.string,
+			encryption: { keys: () => [{ id: "k", key: randomBytes(32) }] },
+		})
+		await sleep(1100)
+		expect(await target.import(Readable.from(chunks))).toEqual({ imported: 3, skipped: 0 })
+		expect(await target.get("small")).toBe("s")
+		expect(await target.get("large")).toBe(large)
+		expect(await target.has("stale")).toBe("stale")
+		expect(await target.keysForTag("t2")).toEqual(["small"])
+
+		const ttl = (cache: Cache<string>, key: string) => (cache.db.prepare("SELECT ttl FROM cache WHERE key = ?").get(key) as { ttl: number }).ttl
+		// rebased on the import time, so it is later than in the source
+		expect(ttl(target, "large") - ttl(source, "large")).toBeGreaterThan(1)
+		const absolute = new Cache<string>({ dbPath: ":memory:", path: getPathRelativeToCustomTmpDirectory("export-absolute"), serializer: serializers.string })
+		await absolute.import(Readable.from(chunks), { rebase: false })
+		expect(ttl(absolute, "large")).toBeCloseTo(ttl(source, "large"), 3)
+
+		await expect(target.import(Readable.from(["{\"key\":\"a\"}\n"]))).rejects.toThrow("Not an xxstache export")
+		await expect(target.import(Readable.from([]))).rejects.toThrow("Not an xxstache export")
+		for (const cache of [source, target, absolute]) cache.db.close()
+	}, 10000)
+
+	it("export / import - merge policies", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("merge")
+		const source = new Cache<string>({ dbPath: ":memory:", path, serializer: serializers.string })
+		await source.set("a", "imported", 100)
+		await source.set("b", "imported", 100)
+		await source.set("c", "imported", 100)
+		const chunks: Buffer[] = []
+		await source.export(new PassThrough().on("data", (chunk) => chunks.push(chunk)), { pattern: "[ab]" })
+
+		const merge = async (policy: MergePolicy) => {
+			const target = new Cache<string>({ dbPath: ":memory:", path, serializer: serializers.string })
+			await target.set("a", "existing", 50)
+			await target.set("b", "existing", 500)
+			const report = await target.import(Readable.from(chunks), { policy })
+			const values = [await target.get("a"), await target.get("b"), await target.get("c")]
+			target.db.close()
+			return { report, values }
+		}
+		expect(await merge("overwrite")).toEqual({ report: { imported: 2, skipped: 0 }, values: ["imported", "imported", undefined] })
+		expect(await merge("keep-newer")).toEqual({ report: { imported: 1, skipped: 1 }, values: ["imported", "existing", undefined] })
+		expect(await merge("skip-existing")).toEqual({ report: { imported: 0, skipped: 2 }, values: ["existing", "existing", undefined] })
+		source.db.close()
+	})
+
+	it("close - operations throw after close, and await using closes the cache", async () => {
+		let disposed: Cache
+		{
+			await using cache = new Cache({ dbPath: ":memory:", path: getPathRelativeToCustomTmpDirectory("close"), memory: {} })
+			await cache.set("a", Buffer.from("a"))
+			expect(await cache.get("a")).toEqual(Buffer.from("a"))
+			disposed = cache
+		}
+		expect(disposed.db.open).toBe(false)
+		// not even the memory tier serves reads
+		await expect(disposed.get("a")).rejects.toThrow("The cache is closed")
+		await expect(disposed.set("b", Buffer.from("b"))).rejects.toThrow("The cache is closed")
+		await expect(disposed.keys().next()).rejects.toThrow("The cache is closed")
+		await disposed.close()
+	})
+
+	it("clear - removes every entry and file, and keeps the database", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("clear")
+		const cache = new Cache({ path, dbPath: join(path, "cache.db"), memory: {} })
+		await cache.set("small", Buffer.from("small"), { tags: ["t"] })
+		await cache.set("large", randomBytes(20 * 1024))
+		expect(await cache.get("small")).toEqual(Buffer.from("small"))
+
+		expect(await cache.clear()).toBe(2)
+		expect(await cache.get("small")).toBeUndefined()
+		expect(await cache.keysForTag("t")).toEqual([])
+		expect((await cache.stats()).entries).toBe(0)
+		expect((readdirSync(path, { recursive: true }) as string[]).filter((f) => !f.startsWith("cache.db"))).toEqual([])
+
+		await cache.set("large", randomBytes(20 * 1024))
+		expect(await cache.has("large")).toBe("hit")
+		await cache.close()
+	})
+
+	it("clear - leaves the files of other databases on the same path alone", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("clear-shared")
+		const a = new Cache({ path, dbPath: join(path, "a.db") })
+		const b = new Cache({ path, dbPath: join(path, "b.db") })
+		await a.set("a", randomBytes(20 * 1024))
+		const value = randomBytes(20 * 1024)
+		await b.set("b", value)
+
+		expect(await a.clear()).toBe(1)
+		expect(await a.get("a")).toBeUndefined()
+		expect(await b.get("b")).toEqual(value)
+		await a.close()
+		await b.close()
+	})
+
+	it("compact - reclaims the space of deleted entries", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("compact")
+		const cache = new Cache({ path, dbPath: join(path, "cache.db") })
+		await cache.setMany(Array.from({ length: 200 }, (_, i) => ({ key: `k${i}`, value: randomBytes(4096) })))
+		await cache.deleteMatching("k*")
+
+		const { before, after } = await cache.compact()
+		expect(after).toBeLessThan(before / 10)
+		expect(existsSync(join(path, "cache.db-wal")) ? readFileSync(join(path, "cache.db-wal")).length : 0).toBe(0)
+		await cache.close()
+	})
+
+	it("expiry - sliding entries expire a TTL after their last read", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("sliding")
+		for (const memory of [undefined, {}]) {
+			const cache = new Cache({ dbPath: ":memory:", path, memory })
+			await cache.set("session", Buffer.from("s"), { ttl: 0.8, sliding: true })
+			await cache.set("fixed", Buffer.from("f"), 0.8)
+			for (let i = 0; i < 3; i++) {
+				await sleep(400)
+				expect(await cache.get("session")).toEqual(Buffer.from("s"))
+				await cache.get("fixed")
+			}
+			expect(await cache.has("session")).toBe("hit")
+			expect(await cache.has("fixed")).toBe("stale")
+			expect(await cache.getTtl("session")).toBeGreaterThan(0.6)
+
+			// stale entries don't come back to life
+			await sleep(900)
+			await cache.get("session")
+			expect(await cache.has("session")).toBe("stale")
+			await cache.close()
+		}
+	})
+
+	it("expiry - expiresAt, getTtl, expire and persist, without rewriting values", async () => {
+		const path = getPathRelativeToCustomTmpDirectory("expiry")
+		const cache = new Cache({ dbPath: ":memory:", path })
+		const large = randomBytes(20 * 1024)
+		await cache.set("large", large, { expiresAt: new Date(Date.now() + 60_000) })
+		expect(await cache.getTtl("large")).toBeCloseTo(60, 0)
+		expect(await cache.getTtl("missing")).toBeUndefined()
+		await expect(cache.set("both", large, { ttl: 10, expiresAt: new Date() })).rejects.toThrow("either ttl or expiresAt")
+
+		const row = () => cache.db.prepare("SELECT filename, checksum, atime FROM cache WHERE key = 'large'").get()
+		const before = row()
+		expect(await cache.expire("large", -1)).toBe(true)
+		expect(await cache.has("large")).toBe("stale")
+		expect(await cache.expire("large", new Date(Date.now() + 120_000))).toBe(true)
+		expect(await cache.getTtl("large")).toBeCloseTo(120, 0)
+		expect(await cache.persist("large")).toBe(true)
+		expect(await cache.getTtl("large")).toBe(Infinity)
+		expect(row()).toEqual(before)
+		expect(await cache.get("large")).toEqual(large)
+		expect(await cache.expire("missing", 10)).toBe(false)
+		expect(await cache.persist("missing")).toBe(false)
+
+		// expire() keeps sliding entries sliding, persist() stops them
+		await cache.set("session", Buffer.from("s"), { ttl: 60, sliding: true })
+		await cache.expire("session", 120)
+		await cache.get("session")
+		expect(await cache.getTtl("session")).toBeCloseTo(120, 0)
+
+		const archive = new PassThrough()
+		const target = new Cache({ dbPath: ":memory:", path: getPathRelativeToCustomTmpDirectory("expiry-import") })
+		const imported = target.import(archive)
+		await cache.export(archive)
+		await imported
+		expect(await target.getTtl("large")).toBe(Infinity)
+		await target.expire("session", 5)
+		await target.get("session")
+		expect(cache.db.prepare("SELECT sliding FROM cache WHERE key = 'session'").get()).toEqual({ sliding: 120 })
+		expect(target.db.prepare("SELECT sliding FROM cache WHERE key = 'session'").get()).toEqual({ sliding: 5 })
+	})
+})
@@ -0,0 +1,35 @@
+import { MemoryTier } from "../src/memory"
+
+describe("memory tier", () => {
+	it("evicts the least recently used entries beyond maxEntries and maxSize", () => {
+		const memory = new MemoryTier<string>({ maxEntries: 2, maxSize: 10 })
+		memory.set("a", "a", 100, 4, 0)
+		memory.set("b", "b", 100, 4, 0)
+		expect(memory.get("a", 0)?.value).toBe("a")
+		memory.set("c", "c", 100, 4, 0)
+		expect(memory.get("b", 0)).toBeUndefined()
+
+		memory.set("d", "d", 100, 6, 0)
+		expect(memory.stats()).toEqual({ entries: 2, bytes: 10, hits: 1, misses: 1 })
+		expect(memory.get("a", 0)).toBeUndefined()
+		memory.set("e", "e", 100, 11, 0)
+		expect(memory.get("e", 0)).toBeUndefined()
+	})
+
+	it("respects the entry TTL and its own ttl", () => {
+		const memory = new MemoryTier<string>({ ttl: 5 })
+		memory.set("expired", "x", 10, 1, 10)
+		memory.set("short", "y", 100, 1, 10)
+		expect(memory.get("expired", 10)).toBeUndefined()
+		expect(memory.get("short", 14)?.value).toBe("y")
+		expect(memory.get("short", 15)).toBeUndefined()
+		expect(memory.stats()).toMatchObject({ entries: 0, bytes: 0 })
+	})
+
+	it("bumps its version on writes", () => {
+		const memory = new MemoryTier<string>()
+		const { version } = memory
+		memory.delete("missing")
+		expect(memory.version).toBeGreaterThan(version)
+	})
+})
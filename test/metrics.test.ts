@@ -0,0 +1,44 @@
+import { CacheStats, emptyCounters, formatPrometheus, Metrics } from "../src/metrics"
+
+describe("metrics", () => {
+	it("counts in total and per prefix", () => {
+		const metrics = new Metrics(":")
+		metrics.count("hits", "user:1")
+		metrics.count("hits", "page:/")
+		metrics.count("sets", "plain", 2)
+
+		expect(metrics.total).toEqual({ ...emptyCounters(), hits: 2, sets: 2 })
+		expect(metrics.prefixes.get("user")).toEqual({ ...emptyCounters(), hits: 1 })
+		expect(metrics.prefixes.get("")).toEqual({ ...emptyCounters(), sets: 2 })
+		expect(new Metrics().prefix("user:1")).toBe("")
+	})
+
+	describe("formatPrometheus", () => {
+		const stats: CacheStats = { ...emptyCounters(), hits: 3, corrupted: 1, entries: 2, dbBytes: 10, diskBytes: 20000 }
+
+		it("should render totals", () => {
+			const text = formatPrometheus(stats)
+			expect(text).toContain("# TYPE xxstache_hits_total counter\nxxstache_hits_total 3\n")
+			expect(text).toContain("xxstache_corrupted_total 1\n")
+			expect(text).toContain("# TYPE xxstache_entries gauge\nxxstache_entries 2\n")
+			expect(text).toContain("xxstache_stored_bytes{storage=\"db\"} 10\nxxstache_stored_bytes{storage=\"disk\"} 20000\n")
+		})
+
+		it("should label per-prefix figures and escape label values", () => {
+			const prefixes = { "a\"b": { ...emptyCounters(), hits: 1, entries: 1, dbBytes: 5, diskBytes: 0 } }
+			const text = formatPrometheus({ ...stats, prefixes }, "app")
+			expect(text).toContain("app_hits_total{prefix=\"a\\\"b\"} 1\n")
+			expect(text).toContain("app_stored_bytes{prefix=\"a\\\"b\",storage=\"db\"} 5\n")
+			expect(text).not.toContain("app_hits_total 3")
+		})
+
+		it("should render the memory tier when it is enabled", () => {
+			expect(formatPrometheus(stats)).not.toContain("memory")
+			const text = formatPrometheus({ ...stats, memory: { entries: 1, bytes: 4, hits: 5, misses: 6 } })
+			expect(text).toContain("xxstache_memory_hits_total 5\n")
+			expect(text).toContain("xxstache_memory_misses_total 6\n")
+			expect(text).toContain("xxstache_memory_entries 1\n")
+			expect(text).toContain("xxstache_memory_bytes 4\n")
+		})
+	})
+})
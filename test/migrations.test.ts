@@ -0,0 +1,102 @@
+import SQLite3 from "better-sqlite3"
+import { mkdirSync, writeFileSync } from "fs"
+import { dirname, join } from "path"
+import Cache from "../src"
+import { migrate, SCHEMA_VERSION } from "../src/migrations"
+import { cleanTestFs, getPathRelativeToCustomTmpDirectory, prepareTestFs } from "./test-utils"
+
+describe("schema migrations", () => {
+	beforeAll(() => prepareTestFs())
+	afterAll(() => cleanTestFs())
+
+	const path = getPathRelativeToCustomTmpDirectory("migrations")
+	const ttl = new Date().getTime() / 1000 + 3600
+
+	/** Creates a database with the tables and rows an older version left behind */
+	const legacy = (name: string, ddl: string, rows: Array<Record<string, unknown>>) => {
+		mkdirSync(path, { recursive: true })
+		const dbPath = join(path, name)
+		const db = new SQLite3(dbPath)
+		db.exec(ddl)
+		for (const row of rows) {
+			const columns = Object.keys(row)
+			db.prepare(`INSERT INTO cache (${columns.join(", ")}) VALUES (${columns.map((c) => "@" + c).join(", ")})`).run(row)
+		}
+		db.close()
+		return dbPath
+	}
+
+	const columns = (cache: Cache) => (cache.db.pragma("table_info(cache)") as Array<{ name: string }>).map(({ name }) => name)
+
+	it("upgrades a database from before the atime column in place", async () => {
+		const dbPath = legacy("pre-atime.db", `
+			CREATE TABLE cache (key TEXT PRIMARY KEY, value BLOB, filename TEXT, ttl REAL NOT NULL);
+			CREATE INDEX cache_ttl ON cache (ttl);
+		`, [{ key: "a", value: Buffer.from("hello"), filename: null, ttl }])
+
+		const cache = new Cache({ path, dbPath })
+		expect(cache.db.pragma("user_version", { simple: true })).toBe(SCHEMA_VERSION)
+		expect(columns(cache)).toEqual(["key", "value", "filename", "ttl", "atime", "size", "codec", "compression", "checksum", "key_id", "sliding"])
+		expect(await cache.get("a")).toEqual(Buffer.from("hello"))
+		expect((await cache.stats()).dbBytes).toBe(5)
+
+		await cache.set("b", Buffer.from("world"), { tags: ["greeting"] })
+		expect(await cache.keysForTag("greeting")).toEqual(["b"])
+		cache.db.close()
+	})
+
+	it("upgrades an unversioned database that already has some of the columns", async () => {
+		const dbPath = legacy("unversioned.db", `
+			CREATE TABLE cache (key TEXT PRIMARY KEY, value BLOB, filename TEXT, ttl REAL NOT NULL, atime REAL NOT NULL, size INTEGER NOT NULL DEFAULT 0, codec TEXT);
+			CREATE INDEX cache_ttl ON cache (ttl);
+			CREATE INDEX cache_atime ON cache (atime);
+			CREATE TABLE cache_tags (tag TEXT NOT NULL, key TEXT NOT NULL REFERENCES cache (key) ON DELETE CASCADE, PRIMARY KEY (tag, key));
+		`, [{ key: "a", value: Buffer.from("hello"), filename: null, ttl, atime: 0, size: 42, codec: null }])
+
+		const cache = new Cache({ path, dbPath })
+		expect(cache.db.pragma("user_version", { simple: true })).toBe(SCHEMA_VERSION)
+		expect(columns(cache)).toEqual(["key", "value", "filename", "ttl", "atime", "size", "codec", "compression", "checksum", "key_id", "sliding"])
+		// existing sizes are kept
+		expect((await cache.stats()).dbBytes).toBe(42)
+		expect(await cache.get("a")).toEqual(Buffer.from("hello"))
+		cache.db.close()
+
+		// reopening finds nothing left to do
+		const reopened = new SQLite3(dbPath)
+		expect(migrate(reopened)).toBe(SCHEMA_VERSION)
+		reopened.close()
+	})
+
+	it("keeps the files of a database from before per-database subdirectories directly in path", async () => {
+		const dbPath = legacy("files.db", `
+			CREATE TABLE cache (key TEXT PRIMARY KEY, value BLOB, filename TEXT, ttl REAL NOT NULL);
+		`, [{ key: "a", value: null, filename: "aa/bb/a.v", ttl }])
+		mkdirSync(join(path, "aa/bb"), { recursive: true })
+		writeFileSync(join(path, "aa/bb/a.v"), "hello")
+
+		const cache = new Cache({ path, dbPath })
+		expect(cache.storePath).toBe(path)
+		expect(await cache.get("a")).toEqual(Buffer.from("hello"))
+		cache.db.close()
+
+		// a new database on the same path gets a subdirectory of its own
+		const fresh = new Cache({ path, dbPath: join(path, "fresh.db") })
+		expect(dirname(fresh.storePath)).toBe(path)
+		fresh.db.close()
+	})
+
+	it("leaves the database at the last successful step when one fails", () => {
+		const db = new SQLite3(":memory:")
+		// columns can't be added to a view
+		db.exec("CREATE VIEW cache AS SELECT 'a' AS key, NULL AS value, NULL AS filename, 0 AS ttl")
+		db.exec("PRAGMA user_version = 1")
+		expect(() => migrate(db)).toThrow("Cannot add a column to a view")
+		expect(db.pragma("user_version", { simple: true })).toBe(1)
+		db.close()
+	})
+
+	it("refuses a database created by a newer version", () => {
+		const dbPath = legacy("newer.db", `PRAGMA user_version = ${SCHEMA_VERSION + 1}`, [])
+		expect(() => new Cache({ path, dbPath })).toThrow(`has schema version ${SCHEMA_VERSION + 1}, but this version of xxstache only supports up to ${SCHEMA_VERSION}`)
+	})
+})
@@ -0,0 +1,34 @@
+import { buffer, getSerializer, json, string, v8 } from "../src/serializers"
+
+describe("serializers", () => {
+	it("round-trips values through the built-in codecs", () => {
+		expect(buffer.deserialize(buffer.serialize(Buffer.from("raw")))).toEqual(Buffer.from("raw"))
+		expect(string.deserialize(string.serialize("héllo"))).toBe("héllo")
+		expect(json().deserialize(json().serialize({ a: [1, 2], b: null }))).toEqual({ a: [1, 2], b: null })
+
+		const value = { when: new Date(0), ids: new Set([1, 2]), map: new Map([["a", 1]]) }
+		const structured = v8<typeof value>()
+		expect(structured.deserialize(structured.serialize(value))).toEqual(value)
+	})
+
+	describe("getSerializer", () => {
+		const custom = { name: "custom", serialize: (v: number) => Buffer.from([v]), deserialize: (d: Buffer) => d[0] }
+
+		it("should return the configured serializer for its own codec", () => {
+			expect(getSerializer("custom", custom)).toBe(custom)
+		})
+
+		it("should return built-ins for other codecs", () => {
+			expect(getSerializer("json", custom).name).toBe("json")
+			expect(getSerializer("v8", custom).name).toBe("v8")
+		})
+
+		it("should treat entries without a codec as raw buffers", () => {
+			expect(getSerializer(null, custom)).toBe(buffer)
+		})
+
+		it("should throw for unknown codecs", () => {
+			expect(() => getSerializer("nope", custom)).toThrow("Unknown codec")
+		})
+	})
+})
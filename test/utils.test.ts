@@ -6,7 +6,10 @@ import {
 	getDatabasePath,
 	getFileCachePath,
 	hasPersistentDatabaseLocation,
+	limiter,
+	listFiles,
 	purgeEmptyPath,
+	write,
 } from "../src/utils"
 import { tmpdir } from "os"
 import { DEFAULT_DB_NAME, DEFAULT_DIRECTORY_NAME } from "../src/consts"
@@ -48,6 +51,43 @@ describe("utils", () => {
 		await purgeEmptyPath(getPathRelativeToCustomTmpDirectory("xyz/abc"))
 	})
 
+	it("write replaces files without leaving temporary files", async () => {
+		const dir = getPathRelativeToCustomTmpDirectory("atomic")
+		await write(dir, "ab/cd.v", Buffer.from("one"))
+		await write(dir, "ab/cd.v", Buffer.from("two"))
+
+		expect(fs.readFileSync(pathJoin(dir, "ab/cd.v"), "utf8")).toBe("two")
+		expect(listFiles(dir)).toEqual(["ab/cd.v"])
+	})
+
+	it("limiter runs at most the given number of tasks at once", async () => {
+		const limit = limiter(2)
+		let active = 0
+		let peak = 0
+		const task = async (n: number) => {
+			active++
+			peak = Math.max(peak, active)
+			await new Promise((resolve) => setTimeout(resolve, 5))
+			active--
+			return n
+		}
+
+		expect(await Promise.all([1, 2, 3, 4, 5].map((n) => limit(() => task(n))))).toEqual([1, 2, 3, 4, 5])
+		expect(peak).toBe(2)
+		await expect(limit(() => Promise.reject(new Error("failed")))).rejects.toThrow("failed")
+		expect(await limit(() => task(6))).toBe(6)
+	})
+
+	it("listFiles skips the given directories", async () => {
+		const dir = getPathRelativeToCustomTmpDirectory("list")
+		await write(dir, "a/b/c.v", Buffer.from("c"))
+		await write(dir, "d.v", Buffer.from("d"))
+		await write(dir, "skipped/e.v", Buffer.from("e"))
+
+		expect(listFiles(dir, [pathJoin(dir, "skipped")]).sort()).toEqual(["a/b/c.v", "d.v"])
+		expect(listFiles(getPathRelativeToCustomTmpDirectory("missing"))).toEqual([])
+	})
+
 	describe("hasPersistentDatabaseLocation", () => {
 		it("should return true for files paths", () => {
 			expect(hasPersistentDatabaseLocation("/tmp/test/")).toBe(true)